@@ -0,0 +1,134 @@
+// App icons drawn at build time: a fretboard corner with a note marker.
+// Rendered straight into RGBA pixels and encoded as PNG, so no image tooling is needed.
+import { deflateSync } from 'node:zlib'
+
+type Rgb = [number, number, number]
+
+const BACKGROUND: Rgb = [0x18, 0x18, 0x20]
+const WOOD: Rgb = [0x3a, 0x2a, 0x22]
+const FRET: Rgb = [0xc8, 0xc8, 0xd0]
+const STRING: Rgb = [0xe8, 0xdc, 0xc0]
+const MARKER: Rgb = [0xff, 0xb3, 0x47]
+
+export type IconSpec = { fileName: string; size: number; maskable: boolean }
+
+export const ICONS: IconSpec[] = [
+  { fileName: 'icon-192.png', size: 192, maskable: false },
+  { fileName: 'icon-512.png', size: 512, maskable: false },
+  { fileName: 'icon-maskable-512.png', size: 512, maskable: true },
+  { fileName: 'apple-touch-icon.png', size: 180, maskable: true },
+]
+
+// Coverage of pixel (x, y) by a shape, antialiased over a 4×4 grid
+function coverage(x: number, y: number, inside: (px: number, py: number) => boolean): number {
+  let hits = 0
+  for (let sy = 0; sy < 4; sy++) {
+    for (let sx = 0; sx < 4; sx++) {
+      if (inside(x + (sx + 0.5) / 4, y + (sy + 0.5) / 4)) hits++
+    }
+  }
+  return hits / 16
+}
+
+function roundRect(x0: number, y0: number, x1: number, y1: number, r: number) {
+  return (px: number, py: number) => {
+    if (px < x0 || px > x1 || py < y0 || py > y1) return false
+    const cx = Math.min(Math.max(px, x0 + r), x1 - r)
+    const cy = Math.min(Math.max(py, y0 + r), y1 - r)
+    return (px - cx) ** 2 + (py - cy) ** 2 <= r * r
+  }
+}
+
+export function drawIcon(size: number, maskable: boolean): Uint8Array {
+  const px = new Uint8Array(size * size * 4)
+  // maskable icons fill the square and keep the artwork in the 80% safe zone
+  const pad = maskable ? size * 0.2 : size * 0.08
+  const tile = maskable
+    ? roundRect(0, 0, size, size, 0)
+    : roundRect(size * 0.04, size * 0.04, size * 0.96, size * 0.96, size * 0.18)
+  const boardTop = pad + (size - 2 * pad) * 0.12
+  const boardBottom = size - pad - (size - 2 * pad) * 0.12
+  const board = roundRect(pad, boardTop, size - pad, boardBottom, size * 0.02)
+  const shapes: [(x: number, y: number) => boolean, Rgb][] = [[board, WOOD]]
+  const w = size - 2 * pad
+  for (let i = 1; i <= 3; i++) {
+    const x = pad + (w * i) / 4
+    shapes.push([roundRect(x - size * 0.008, boardTop, x + size * 0.008, boardBottom, 0), FRET])
+  }
+  const strings = 4
+  for (let i = 0; i < strings; i++) {
+    const y = boardTop + ((boardBottom - boardTop) * (i + 0.5)) / strings
+    const half = size * (0.006 + 0.002 * i)
+    shapes.push([roundRect(pad, y - half, size - pad, y + half, 0), STRING])
+  }
+  const markerX = pad + (w * 2.5) / 4
+  const markerY = boardTop + ((boardBottom - boardTop) * 1.5) / strings
+  const r = size * 0.075
+  shapes.push([roundRect(markerX - r, markerY - r, markerX + r, markerY + r, r), MARKER])
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const alpha = coverage(x, y, tile)
+      if (alpha === 0) continue
+      let color: Rgb = BACKGROUND
+      for (const [inside, fill] of shapes) {
+        const a = coverage(x, y, inside)
+        if (a > 0) color = color.map((c, k) => c + (fill[k] - c) * a) as Rgb
+      }
+      const o = (y * size + x) * 4
+      px[o] = Math.round(color[0])
+      px[o + 1] = Math.round(color[1])
+      px[o + 2] = Math.round(color[2])
+      px[o + 3] = Math.round(alpha * 255)
+    }
+  }
+  return encodePng(size, size, px)
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff
+  for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length)
+  const view = new DataView(out.buffer)
+  view.setUint32(0, data.length)
+  out.set(new TextEncoder().encode(type), 4)
+  out.set(data, 8)
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)))
+  return out
+}
+
+// 8-bit RGBA, no filtering
+function encodePng(width: number, height: number, rgba: Uint8Array): Uint8Array {
+  const header = new Uint8Array(13)
+  const view = new DataView(header.buffer)
+  view.setUint32(0, width)
+  view.setUint32(4, height)
+  header.set([8, 6, 0, 0, 0], 8)
+  const raw = new Uint8Array(height * (width * 4 + 1))
+  for (let y = 0; y < height; y++) {
+    raw.set(rgba.subarray(y * width * 4, (y + 1) * width * 4), y * (width * 4 + 1) + 1)
+  }
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', new Uint8Array(0)),
+  ]
+  const png = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let offset = 0
+  for (const p of parts) {
+    png.set(p, offset)
+    offset += p.length
+  }
+  return png
+}
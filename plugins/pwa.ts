@@ -0,0 +1,90 @@
+// Offline build: emits the app icons and a service worker that precaches every
+// file of the build under a cache named after a hash of their contents.
+import { createHash } from 'node:crypto'
+import { readdir, readFile, writeFile } from 'node:fs/promises'
+import { join, relative, resolve, sep } from 'node:path'
+import type { Plugin, ResolvedConfig } from 'vite'
+import { ICONS, drawIcon } from './icons.ts'
+
+const SW_FILE = 'sw.js'
+
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true, recursive: true })
+  return entries
+    .filter((e) => e.isFile())
+    .map((e) => relative(dir, join(e.parentPath, e.name)).split(sep).join('/'))
+    .sort()
+}
+
+function serviceWorker(cacheName: string, urls: string[], indexUrl: string): string {
+  return `// Generated by plugins/pwa.ts
+const CACHE = ${JSON.stringify(cacheName)}
+const PRECACHE = ${JSON.stringify(urls)}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(PRECACHE)))
+})
+
+// The page asks for the switch once the player accepts the update
+self.addEventListener('message', (event) => {
+  if (event.data === 'skipWaiting') self.skipWaiting()
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((k) => k.startsWith('bf-') && k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim()),
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return
+  // every page URL is the single-page app (drill links carry their settings in the URL hash)
+  const key = request.mode === 'navigate' ? ${JSON.stringify(indexUrl)} : request
+  event.respondWith(
+    caches.open(CACHE)
+      .then((cache) => cache.match(key))
+      .then((hit) => hit ?? fetch(request)),
+  )
+})
+`
+}
+
+export default function pwa(): Plugin {
+  let config: ResolvedConfig
+  return {
+    name: 'bf-pwa',
+    configResolved(resolved) {
+      config = resolved
+    },
+    // the manifests point at the icons, so the dev server draws them too
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const icon = ICONS.find((i) => req.url === `/${i.fileName}`)
+        if (!icon) return next()
+        res.setHeader('Content-Type', 'image/png')
+        res.end(drawIcon(icon.size, icon.maskable))
+      })
+    },
+    generateBundle() {
+      for (const icon of ICONS) {
+        this.emitFile({ type: 'asset', fileName: icon.fileName, source: drawIcon(icon.size, icon.maskable) })
+      }
+    },
+    // the output directory is complete here, public files included
+    async writeBundle() {
+      const outDir = resolve(config.root, config.build.outDir)
+      const files = (await listFiles(outDir)).filter((f) => f !== SW_FILE && !f.endsWith('.map'))
+      const hash = createHash('sha256')
+      for (const f of files) {
+        hash.update(f)
+        hash.update(await readFile(join(outDir, f)))
+      }
+      const base = config.base.endsWith('/') ? config.base : `${config.base}/`
+      const urls = files.map((f) => base + f)
+      await writeFile(join(outDir, SW_FILE), serviceWorker(`bf-${hash.digest('hex').slice(0, 12)}`, urls, `${base}index.html`))
+    },
+  }
+}
@@ -1,57 +1,194 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { createContext, useCallback, useContext, useEffect, useId, useMemo, useRef, useState } from 'react'
 import './App.css'
-import { audio } from './audio'
-import { FiSettings } from 'react-icons/fi'
+import { audio, MicListener, type SustainMode, type VoiceKind } from './audio'
+import { SamplePlayer } from './samples'
+import {
+  MAX_BPM,
+  MIN_BPM,
+  Metronome,
+  TIME_SIGNATURES,
+  dueTime,
+  judgeTiming,
+  rampedBpm,
+  type Subdivision,
+} from './metronome'
+import MetronomeHud, { type GrooveCounts, type GrooveResult } from './MetronomeHud'
+import { FiBarChart2, FiRepeat, FiSettings } from 'react-icons/fi'
 import { IoClose } from 'react-icons/io5'
-import { Renderer, Stave, StaveNote, Accidental, Formatter, Voice } from 'vexflow'
+// Bravura-only build: its fonts are embedded in the bundle, so notation renders offline
+import { Renderer, Stave, StaveNote, Accidental, Formatter, Voice, TabStave, TabNote, StaveModifierPosition } from 'vexflow/bravura'
+import {
+  STRING_COUNTS,
+  TUNING_MAX_MIDI,
+  TUNING_MIN_MIDI,
+  TUNING_PRESETS,
+  findPreset,
+  resolveTuning,
+  standardTuning,
+  type StringCount,
+} from './tuning'
+import {
+  KEY_SIGNATURES,
+  NOTE_NAMES_SHARP,
+  formatNote,
+  keySignature,
+  midiToNameOctave,
+  spellMidi,
+  staffAccidentals,
+  toVexKey,
+  type NoteNaming,
+  type SpellingPreference,
+} from './notes'
+import {
+  I18nContext,
+  LOCALES,
+  LOCALE_NAMES,
+  MESSAGES,
+  patternName,
+  resolveLocale,
+  tuningName,
+  useI18n,
+  type LocaleSetting,
+} from './i18n'
+import { appendAttempt, heatmapIntensities, type Attempt, type HeatmapMetric } from './stats'
+import StatsPanel from './StatsPanel'
+import GameHud from './GameHud'
+import RoundSummary from './RoundSummary'
+import PwaPrompts from './PwaPrompts'
+import {
+  FRET_COUNTS,
+  PROBLEM_VIEWS,
+  READING_FORMATS,
+  SETTINGS,
+  TRAINING_MODES,
+  type BoardTheme,
+  type EarReference,
+  type InlayStyle,
+  type InputMode,
+  type ProblemView,
+  type ReadingFormat,
+  type SettingName,
+  type SettingValue,
+  type TargetSelection,
+  type TrainingMode,
+} from './settings'
+import { CENTS_TOLERANCES, centsOff, type FretLines } from './fretless'
+import {
+  PERPENDICULAR_FRETS,
+  SCALE_LENGTHS,
+  fanGeometry,
+  isFanned,
+  pointInPolygon,
+  polygonPoints,
+  type Point,
+  type ScaleLengths,
+} from './multiscale'
+import { loadProfiles, readSetting, saveProfiles, writeSetting, type ProfileList } from './profiles'
+import ProfileControls from './ProfileControls'
+import {
+  addScore,
+  applyAnswer,
+  configKey,
+  isOver,
+  roundEntry,
+  startRound,
+  tick,
+  type GameMode,
+  type GameRound,
+} from './game'
+import { STABLE_FRAMES, createStabilizer, detectPitch } from './pitch'
+import { connectMidiInputs, inferPosition } from './midiInput'
+import { SHORTCUTS, connectGamepads, keyAction, moveCursor, type BoardAction } from './boardInput'
+import { generateSequence, nextNoteIndex, type SeqEvent } from './sequence'
+import StaffSequence from './StaffSequence'
+import { CLEF_SETUPS, staffStep, type ClefNotation } from './notation'
+import {
+  INTERVAL_SEMITONES,
+  answerCells,
+  degreeName,
+  intervalName,
+  isCorrectInterval,
+  pickIntervalQuestion,
+  type IntervalKind,
+  type IntervalQuestion,
+  type IntervalReach,
+} from './intervals'
+import { createRng, dailySeed, isDailySeed, randomSeed } from './rng'
+import { dailyConfig, decodeDrill, encodeDrill, type DrillConfig } from './drillLink'
+import {
+  PATTERNS,
+  answerPattern,
+  createPatternState,
+  degreeOf,
+  findPattern,
+  isPatternComplete,
+  patternTargetMidi,
+  type PatternOrder,
+  type PatternState,
+} from './patterns'
+import { cellKey, createLearningState, itemWeight, pickNext, recordAnswer } from './scheduler'
+import {
+  clampWindow,
+  inRegion,
+  isCorrectHit,
+  isCorrectPitch,
+  midiAt,
+  narrowRegion,
+  pickPosition,
+  pitchesIn,
+  positionsOf,
+  resolveRegion,
+  type DrillRegion,
+  type QuizMode,
+  type Target,
+} from './quiz'
 
-type StringCount = 4 | 5 | 6
+type TabNotation = 'tabString' | 'tabFret'
 
-type Target = {
-  stringIndex: number // 0 = bottom (lowest pitch)
-  fret: number // 0..N (0 = open)
+const VIEW_NOTATION: Record<ProblemView, ClefNotation | TabNotation | null> = {
+  text: null,
+  staff: 'bass8vb',
+  staffConcert: 'bassConcert',
+  treble: 'treble',
+  tabString: 'tabString',
+  tabFret: 'tabFret',
+  textStaff: 'bass8vb',
+}
+type SequenceState = {
+  events: SeqEvent[]
+  cursor: number // index of the note being asked, -1 when none
+  missed: number[]
 }
 
-type BoardTheme = 'ebony' | 'maple' | 'rosewood' | 'pauferro'
-type InlayStyle = 'dot' | 'block' | 'none'
-type ProblemView = 'text' | 'staff'
+const TUNING_PITCHES = Array.from(
+  { length: TUNING_MAX_MIDI - TUNING_MIN_MIDI + 1 },
+  (_, k) => TUNING_MIN_MIDI + k,
+)
 
-// Note: textual tuning kept implicit via OPEN_MIDIS and midiToNameOctave
+// Ear and interval prompts are cut to this length while the mic listens, so answers can follow soon
+const MIC_PROMPT_SECONDS = 1.2
 
-// MIDI numbers for open strings in standard tuning (bottom=lowest pitch)
-// 4: E1(28), A1(33), D2(38), G2(43)
-// 5: B0(23), E1(28), A1(33), D2(38), G2(43)
-// 6: B0(23), E1(28), A1(33), D2(38), G2(43), C3(48)
-const OPEN_MIDIS: Record<StringCount, number[]> = {
-  4: [28, 33, 38, 43],
-  5: [23, 28, 33, 38, 43],
-  6: [23, 28, 33, 38, 43, 48],
+function isOneOf<T extends string>(value: string, options: readonly T[]): value is T {
+  return (options as readonly string[]).includes(value)
 }
 
-// open string names no longer used for hinting
-
-const NOTE_NAMES_SHARP = ['C','C#','D','D#','E','F','F#','G','G#','A','A#','B'] as const
-function midiToNameOctave(midi: number): string {
-  const name = NOTE_NAMES_SHARP[midi % 12]
-  const octave = Math.floor(midi / 12) - 1
-  return `${name}${octave}`
-}
+// Profile whose settings usePersistedState reads and writes
+const ProfileContext = createContext<string>('default')
 
-// Persist simple values in localStorage
-function usePersistedState<T>(key: string, initial: T) {
-  const [value, setValue] = useState<T>(() => {
-    try {
-      const raw = localStorage.getItem(key)
-      return raw == null ? initial : (JSON.parse(raw) as T)
-    } catch {
-      return initial
-    }
-  })
+// A setting of the active profile, validated against its schema when read.
+// While `sessionOnly` (a shared drill overriding the setup) changes stay in memory;
+// afterwards the stored value comes back.
+function usePersistedState<K extends SettingName>(name: K, sessionOnly = false) {
+  const profileId = useContext(ProfileContext)
+  const [value, setValue] = useState<SettingValue<K>>(() => readSetting(profileId, name))
+  const [wasSessionOnly, setWasSessionOnly] = useState(sessionOnly)
+  if (wasSessionOnly !== sessionOnly) {
+    setWasSessionOnly(sessionOnly)
+    if (!sessionOnly) setValue(readSetting(profileId, name))
+  }
   useEffect(() => {
-    try {
-      localStorage.setItem(key, JSON.stringify(value))
-    } catch {}
-  }, [key, value])
+    if (!sessionOnly) writeSetting(profileId, name, value)
+  }, [profileId, name, value, sessionOnly])
   return [value, setValue] as const
 }
 
@@ -67,20 +204,199 @@ function useShake(ms = 350) {
   return { shaking, trigger }
 }
 
-function App() {
-  const [stringCount, setStringCount] = usePersistedState<StringCount>('bf:stringCount', 4)
-  const [frets, setFrets] = usePersistedState<number>('bf:frets', 21)
-  const [theme, setTheme] = usePersistedState<BoardTheme>('bf:theme', 'ebony')
-  const [inlay, setInlay] = usePersistedState<InlayStyle>('bf:inlay', 'dot')
-  const [flipBoth, setFlipBoth] = usePersistedState<boolean>('bf:flipBoth', false)
-  const [soundOn, setSoundOn] = usePersistedState<boolean>('bf:soundOn', true)
-  const [problemView, setProblemView] = usePersistedState<ProblemView>('bf:problemView', 'text')
-  const [sideDots, setSideDots] = usePersistedState<boolean>('bf:sideDots', false)
-  const [binding, setBinding] = usePersistedState<boolean>('bf:binding', false)
+type AppProps = {
+  profiles: ProfileList
+  onProfilesChange: (next: ProfileList) => void
+}
+
+function App({ profiles, onProfilesChange }: AppProps) {
+  // interface language ('auto' follows the browser) and how notes are named
+  const [localeSetting, setLocaleSetting] = usePersistedState('locale')
+  const locale = resolveLocale(localeSetting)
+  const t = MESSAGES[locale]
+  const [noteNaming, setNoteNaming] = usePersistedState('noteNaming')
+  const noteNames = useMemo(() => ({ naming: noteNaming, solfege: t.solfege }), [noteNaming, t])
+  const i18n = useMemo(() => ({ locale, t, noteNames }), [locale, t, noteNames])
+  useEffect(() => {
+    document.documentElement.lang = locale
+    document.title = t.appTitle
+    const manifest = document.querySelector<HTMLLinkElement>('link[rel="manifest"]')
+    if (manifest) manifest.href = locale === 'ko' ? '/manifest.webmanifest' : `/manifest.${locale}.webmanifest`
+  }, [locale, t])
+  // seeded session from a shared link or the daily challenge (null = unseeded);
+  // seeded targets ignore personal weak spots so everyone gets the same sequence.
+  // The drill's setup lasts for the session and leaves the profile's own untouched.
+  const [seed, setSeed] = useState<string | null>(null)
+  const drillActive = seed != null
+  const [stringCount, setStringCount] = usePersistedState('stringCount', drillActive)
+  const [storedTuning, setTuning] = usePersistedState('tuning', drillActive)
+  // open-string pitches (bottom = lowest); stale or malformed values fall back to standard
+  const tuning = useMemo(() => resolveTuning(storedTuning, stringCount), [storedTuning, stringCount])
+  const tuningPreset = findPreset(tuning)
+  const [frets, setFrets] = usePersistedState('frets', drillActive)
+  const [scaleBass, setScaleBass] = usePersistedState('scaleBass')
+  const [scaleTreble, setScaleTreble] = usePersistedState('scaleTreble')
+  const [perpendicularFret, setPerpendicularFret] = usePersistedState('perpendicularFret')
+  const scales = useMemo<ScaleLengths>(
+    () => ({ bass: scaleBass, treble: scaleTreble, perpendicular: perpendicularFret }),
+    [scaleBass, scaleTreble, perpendicularFret],
+  )
+  const [theme, setTheme] = usePersistedState('theme')
+  const [inlay, setInlay] = usePersistedState('inlay')
+  const [flipBoth, setFlipBoth] = usePersistedState('flipBoth')
+  const [reducedMotion, setReducedMotion] = usePersistedState('reducedMotion')
+  // screen-reader announcements: the new target, and the result of an answer.
+  // A trailing no-break space toggles so a repeated message is read again.
+  const [targetAnnouncement, setTargetAnnouncement] = useState<string>('')
+  const [resultAnnouncement, setResultAnnouncement] = useState<string>('')
+  const announceResult = useCallback((text: string) => {
+    setResultAnnouncement((prev) => (prev === text ? `${text}\u00a0` : text))
+  }, [])
+  const [soundOn, setSoundOn] = usePersistedState('soundOn')
+  const [volume, setVolume] = usePersistedState('volume')
+  const [muted, setMuted] = usePersistedState('muted')
+  const [sustain, setSustain] = usePersistedState('sustain')
+  const [feedbackSounds, setFeedbackSounds] = usePersistedState('feedbackSounds')
+  const [voice, setVoice] = usePersistedState('voice')
+  const [pluckTone, setPluckTone] = usePersistedState('pluckTone')
+  const [pluckPosition, setPluckPosition] = usePersistedState('pluckPosition')
+  const [pluckMute, setPluckMute] = usePersistedState('pluckMute')
+  // metronome, and groove mode: each target is answered on a given beat
+  const [metronomeOn, setMetronomeOn] = usePersistedState('metronome')
+  const [metronome, setMetronome] = usePersistedState('metronomeSettings')
+  const [grooveOn, setGrooveOn] = usePersistedState('groove')
+  const [grooveBeat, setGrooveBeat] = usePersistedState('grooveBeat')
+  const [grooveWindow, setGrooveWindow] = usePersistedState('grooveWindow')
+  const [tempoRamp, setTempoRamp] = usePersistedState('tempoRamp')
+  const beatsPerBar = metronome.signature.beats
+  const answerBeat = Math.min(grooveBeat, beatsPerBar) - 1
+  const metronomeRef = useRef<Metronome | null>(null)
+  // context time the current target is due on (groove mode)
+  const dueRef = useRef<number | null>(null)
+  // seconds the microphone takes to report a note (0 when it is not listening)
+  const micLatencyRef = useRef(0)
+  const grooveStreakRef = useRef<number>(0)
+  const [beatInBar, setBeatInBar] = useState<number | null>(null)
+  const [grooveResult, setGrooveResult] = useState<GrooveResult | null>(null)
+  const [grooveCounts, setGrooveCounts] = useState<GrooveCounts>({ early: 0, onTime: 0, late: 0 })
+  // samples are loaded from local files each session, not persisted
+  const [sampleNote, setSampleNote] = useState<string | null>(null)
+  const [problemView, setProblemView] = usePersistedState('problemView', drillActive)
+  const [spelling, setSpelling] = usePersistedState('spelling')
+  const [keyFifths, setKeyFifths] = usePersistedState('keyFifths')
+  const [readingFormat, setReadingFormat] = usePersistedState('readingFormat', drillActive)
+  const [seqMeasures, setSeqMeasures] = usePersistedState('seqMeasures', drillActive)
+  const [seqRhythms, setSeqRhythms] = usePersistedState('seqRhythms', drillActive)
+  const [seqRests, setSeqRests] = usePersistedState('seqRests', drillActive)
+  const [sideDots, setSideDots] = usePersistedState('sideDots')
+  const [fretless, setFretless] = usePersistedState('fretless')
+  const [fretLines, setFretLines] = usePersistedState('fretLines')
+  const [centsTolerance, setCentsTolerance] = usePersistedState('centsTolerance')
+  // fretless: cents off per correctly named note this round, and the last one for the HUD
+  const [intonation, setIntonation] = useState<number[]>([])
+  const [centsResult, setCentsResult] = useState<{ cents: number; id: number } | null>(null)
+  const [binding, setBinding] = usePersistedState('binding')
+  const [selection, setSelection] = usePersistedState('selection')
+  const rngRef = useRef<() => number>(Math.random)
+  const targetSelection: TargetSelection = seed ? 'shuffle' : selection
+  const [shareNote, setShareNote] = useState<string | null>(null)
+  const [trainingMode, setTrainingMode] = usePersistedState('trainingMode', drillActive)
+  const earMode = trainingMode === 'ear'
+  const intervalMode = trainingMode === 'interval'
+  const patternMode = trainingMode === 'pattern'
+  const [earReference, setEarReference] = usePersistedState('earReference')
+  const [droneKey, setDroneKey] = usePersistedState('droneKey')
+  const [intervalKind, setIntervalKind] = usePersistedState('intervalKind', drillActive)
+  const [intervalSet, setIntervalSet] = usePersistedState('intervals', drillActive)
+  const [intervalReach, setIntervalReach] = usePersistedState('intervalReach', drillActive)
+  const [patternKey, setPatternKey] = usePersistedState('patternKey', drillActive)
+  const [patternId, setPatternId] = usePersistedState('pattern', drillActive)
+  const [patternOrder, setPatternOrder] = usePersistedState('patternOrder', drillActive)
+  const patternDef = findPattern(patternId)
+  // each training mode keeps separate scoring and history
+  const [readingLearning, setReadingLearning] = usePersistedState('readingLearning')
+  const [earLearning, setEarLearning] = usePersistedState('earLearning')
+  const [intervalLearning, setIntervalLearning] = usePersistedState('intervalLearning')
+  const [patternLearning, setPatternLearning] = usePersistedState('patternLearning')
+  const learning = earMode ? earLearning : intervalMode ? intervalLearning : patternMode ? patternLearning : readingLearning
+  const setLearning = earMode ? setEarLearning : intervalMode ? setIntervalLearning : patternMode ? setPatternLearning : setReadingLearning
+  // latest learning state for target picking without re-creating callbacks on every answer
+  const learningRef = useRef(learning)
+  useEffect(() => { learningRef.current = learning }, [learning])
+  const [readingAttempts, setReadingAttempts] = usePersistedState('readingAttempts')
+  const [earAttempts, setEarAttempts] = usePersistedState('earAttempts')
+  const [intervalAttempts, setIntervalAttempts] = usePersistedState('intervalAttempts')
+  const [patternAttempts, setPatternAttempts] = usePersistedState('patternAttempts')
+  const attempts = earMode ? earAttempts : intervalMode ? intervalAttempts : patternMode ? patternAttempts : readingAttempts
+  const setAttempts = earMode ? setEarAttempts : intervalMode ? setIntervalAttempts : patternMode ? setPatternAttempts : setReadingAttempts
+  // sight-reading phrases are a reading-mode format
+  const sequenceMode = trainingMode === 'reading' && readingFormat === 'sequence'
+  const [sequence, setSequence] = useState<SequenceState | null>(null)
+  const sequenceRef = useRef<SequenceState | null>(null)
+  // notation for the problem (null = text only); phrases cannot be shown as TAB
+  const notation = trainingMode === 'reading' ? VIEW_NOTATION[problemView] : null
+  const tabNotation = !sequenceMode && (notation === 'tabString' || notation === 'tabFret') ? notation : null
+  const sequenceNotation: ClefNotation = notation && notation !== 'tabString' && notation !== 'tabFret' ? notation : 'bass8vb'
+  const [heatmapMetric, setHeatmapMetric] = usePersistedState('heatmap')
+  const [statsOpen, setStatsOpen] = useState<boolean>(false)
+  const [quizMode, setQuizMode] = usePersistedState('quizMode', drillActive)
+  const [storedWindow, setFretWindow] = usePersistedState('fretWindow', drillActive)
+  const fretWindow = useMemo(() => clampWindow(storedWindow, frets), [storedWindow, frets])
+  const activeWindow = quizMode === 'window' ? fretWindow : null
+  const requireString = (quizMode === 'string' && trainingMode !== 'interval' && trainingMode !== 'pattern') || tabNotation === 'tabString'
+  const requireFret = tabNotation === 'tabFret'
+  const [inputMode, setInputMode] = usePersistedState('inputMode')
+  const [octaveTolerant, setOctaveTolerant] = usePersistedState('octaveTolerant')
+  const [micError, setMicError] = useState(false)
+  const [midiChannelPerString, setMidiChannelPerString] = usePersistedState('midiChannelPerString')
+  const [gamepadOn, setGamepadOn] = usePersistedState('gamepad')
+  // keyboard / gamepad cursor, drawn with the hover highlight
+  const [cursor, setCursor] = useState<Target | null>(null)
+  // answer cells shown on request; the target then no longer counts as known
+  const [revealed, setRevealed] = useState<boolean>(false)
+  const [midiInputs, setMidiInputs] = useState<string[]>([])
+  // which catalog message to show; kept as a key so a language switch does not reconnect
+  const [midiError, setMidiError] = useState<'midiUnsupported' | 'midiUnavailable' | null>(null)
+  // practice area: enabled strings and fret range (empty string list = all strings)
+  const [drillStrings, setDrillStrings] = usePersistedState('drillStrings', drillActive)
+  const [drillFrets, setDrillFrets] = usePersistedState('drillFrets', drillActive)
+  const region = useMemo(
+    () => resolveRegion(drillStrings, drillFrets, stringCount, frets),
+    [drillStrings, drillFrets, stringCount, frets],
+  )
+  // where targets may come from: the practice area, narrowed by the quiz window
+  const quizRegion = useMemo(() => narrowRegion(region, activeWindow), [region, activeWindow])
+
+  // Game rounds: off in free practice; personal bests are kept per configuration
+  const [gameMode, setGameMode] = usePersistedState('gameMode')
+  const [leaderboards, setLeaderboards] = usePersistedState('leaderboards')
+  const leaderboardKey = gameMode === 'free' ? null : configKey(
+    trainingMode,
+    gameMode,
+    stringCount,
+    tuning,
+    region.frets,
+    region.strings.length === stringCount ? [] : region.strings,
+  )
+  const [round, setRound] = useState<GameRound | null>(null)
+  const roundRef = useRef<GameRound | null>(null)
+  useEffect(() => { roundRef.current = round }, [round])
+  const [clock, setClock] = useState<number>(() => Date.now())
+  const [lastRank, setLastRank] = useState<number>(-1)
+  const [summaryOpen, setSummaryOpen] = useState<boolean>(false)
 
   // Always running quiz flow
   const [currentMidi, setCurrentMidi] = useState<number | null>(null)
-  
+  const currentMidiRef = useRef<number | null>(null)
+  // cell chosen for the current target when the question names a string or fret
+  const [targetPos, setTargetPos] = useState<Target | null>(null)
+  // interval training: the root and distance being asked; currentMidi is the exact answer above it
+  const [intervalQ, setIntervalQ] = useState<IntervalQuestion | null>(null)
+  const intervalRef = useRef<IntervalQuestion | null>(null)
+  // pattern training: progress through the current shape
+  const [pattern, setPattern] = useState<PatternState | null>(null)
+  const patternRef = useRef<PatternState | null>(null)
+
   const { shaking, trigger } = useShake()
   const [showDamage, setShowDamage] = useState(false)
   const [banner, setBanner] = useState<string | null>(null)
@@ -89,24 +405,23 @@ function App() {
   // guard against rapid multi-taps causing double-advance
   const lastHitTsRef = useRef<number>(0)
   const pendingNextRef = useRef<boolean>(false)
+  // per-target answer tracking for the learning model
+  const targetShownAtRef = useRef<number>(0)
+  const missedRef = useRef<boolean>(false)
   const [controlsOpen, setControlsOpen] = useState<boolean>(false)
 
   // Unique set of targetable MIDI notes (optionally include open)
-  const possibleMidis = useMemo(() => {
-    const s = new Set<number>()
-    for (let i = 0; i < stringCount; i += 1) {
-      const open = OPEN_MIDIS[stringCount][i]
-      for (let f = 0; f <= frets; f += 1) s.add(open + f)
-    }
-    return Array.from(s)
-  }, [stringCount, frets])
+  const possibleMidis = useMemo(
+    () => (quizRegion ? pitchesIn(tuning, quizRegion) : []),
+    [tuning, quizRegion],
+  )
 
   // Non-repeating deck of targets (across distinct notes)
-  const [, setDeck] = useState<number[]>([])
+  const deckRef = useRef<number[]>([])
   const shuffle = <T,>(arr: T[]): T[] => {
     const a = arr.slice()
     for (let i = a.length - 1; i > 0; i -= 1) {
-      const j = Math.floor(Math.random() * (i + 1))
+      const j = Math.floor(rngRef.current() * (i + 1))
       const tmp = a[i]
       a[i] = a[j]
       a[j] = tmp
@@ -114,26 +429,109 @@ function App() {
     return a
   }
 
-  useEffect(() => {
-    setDeck(shuffle(possibleMidis))
+  // Drop the current target and anything in progress, then ask for a new one;
+  // a seeded session starts its sequence over from the seed
+  const [restartToken, setRestartToken] = useState<number>(0)
+  const restartTargets = useCallback(() => {
+    deckRef.current = []
+    sequenceRef.current = null
+    intervalRef.current = null
+    setIntervalQ(null)
+    patternRef.current = null
+    setPattern(null)
+    rngRef.current = seed ? createRng(seed) : Math.random
     setCurrentMidi(null)
-  }, [possibleMidis])
+    setRestartToken((n) => n + 1)
+  }, [seed])
+
+  // string×fret cells that produce a given pitch inside the quiz region
+  const cellsOf = useCallback((midi: number) => {
+    if (!quizRegion) return []
+    return positionsOf(tuning, midi, quizRegion).map((t) => cellKey(t.stringIndex, t.fret))
+  }, [tuning, quizRegion])
+
+  // Show a new target; when a string or fret is asked for, also choose the cell, favouring weak ones
+  const presentTarget = useCallback((midi: number | null) => {
+    currentMidiRef.current = midi
+    setCurrentMidi(midi)
+    targetShownAtRef.current = performance.now()
+    missedRef.current = false
+    setRevealed(false)
+    // groove mode: due on the answer beat, at least one beat from now
+    const grid = metronomeRef.current?.getGrid()
+    dueRef.current = grooveOn && grid && midi != null
+      ? dueTime(grid, beatsPerBar, answerBeat, audio.getContext().currentTime)
+      : null
+    if (midi == null || !(requireString || requireFret) || !quizRegion) {
+      setTargetPos(null)
+      return
+    }
+    const state = learningRef.current
+    const pos = pickPosition(
+      positionsOf(tuning, midi, quizRegion),
+      seed ? undefined : (t) => itemWeight(state.cells[cellKey(t.stringIndex, t.fret)], state.step),
+      rngRef.current,
+    )
+    setTargetPos(pos)
+  }, [requireString, requireFret, tuning, quizRegion, seed, grooveOn, beatsPerBar, answerBeat])
 
   const nextTarget = useCallback(() => {
-    setDeck((prev) => {
-      let d = prev
-      if (!d || d.length === 0) d = shuffle(possibleMidis)
-      const [head, ...rest] = d
-      setCurrentMidi(head ?? null)
-      return rest
-    })
-  }, [possibleMidis])
+    const rng = rngRef.current
+    if (patternMode) {
+      const next = quizRegion ? createPatternState(tuning, quizRegion, patternKey, patternDef, patternOrder) : null
+      patternRef.current = next
+      setPattern(next)
+      presentTarget(next ? patternTargetMidi(next, tuning) : null)
+      return
+    }
+    if (intervalMode) {
+      const q = quizRegion
+        ? pickIntervalQuestion(tuning, quizRegion, intervalSet, intervalKind, intervalReach, rng, intervalRef.current)
+        : null
+      intervalRef.current = q
+      setIntervalQ(q)
+      presentTarget(q ? q.rootMidi + q.semitones : null)
+      return
+    }
+    if (sequenceMode) {
+      // advance the cursor, or start a new phrase once the last note is played
+      const seq = sequenceRef.current
+      const cursor = seq ? nextNoteIndex(seq.events, seq.cursor + 1) : -1
+      let next: SequenceState
+      if (seq && cursor !== -1) {
+        next = { ...seq, cursor }
+      } else {
+        const pick = targetSelection === 'adaptive'
+          ? (c: number[]) => pickNext(learningRef.current, c, rng, null, cellsOf) ?? c[0]
+          : undefined
+        const events = generateSequence(
+          possibleMidis,
+          { measures: seqMeasures, rhythms: seqRhythms, rests: seqRests },
+          rng,
+          pick,
+        )
+        next = { events, cursor: nextNoteIndex(events, 0), missed: [] }
+      }
+      sequenceRef.current = next
+      setSequence(next)
+      presentTarget(next.cursor === -1 ? null : next.events[next.cursor].midi)
+      return
+    }
+    if (targetSelection === 'adaptive') {
+      presentTarget(pickNext(learningRef.current, possibleMidis, rng, currentMidiRef.current, cellsOf))
+      return
+    }
+    if (deckRef.current.length === 0) deckRef.current = shuffle(possibleMidis)
+    const [head, ...rest] = deckRef.current
+    deckRef.current = rest
+    presentTarget(head ?? null)
+  }, [possibleMidis, targetSelection, cellsOf, presentTarget, sequenceMode, seqMeasures, seqRhythms, seqRests, intervalMode, tuning, quizRegion, intervalSet, intervalKind, intervalReach, patternMode, patternKey, patternDef, patternOrder])
 
   useEffect(() => {
     if (currentMidi == null) {
       nextTarget()
     }
-  }, [currentMidi, nextTarget])
+  }, [currentMidi, nextTarget, restartToken])
 
   // Ensure first target is created immediately on mount
   useEffect(() => {
@@ -141,197 +539,1471 @@ function App() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
-  // When tuning or fret count changes, request a new target
+  // When tuning, practice area, quiz constraint, training mode or seed changes, request a new target
   useEffect(() => {
-    setCurrentMidi(null)
-  }, [stringCount, frets])
+    restartTargets()
+  }, [restartTargets, possibleMidis, tuning, quizRegion, quizMode, trainingMode, sequenceMode, seqMeasures, seqRhythms, seqRests, tabNotation, intervalSet, intervalKind, intervalReach, patternKey, patternId, patternOrder, grooveOn])
+
+  // A new round whenever the game mode or its configuration changes
+  const startNewRound = useCallback(() => {
+    setSummaryOpen(false)
+    setIntonation([])
+    setCentsResult(null)
+    setRound(gameMode === 'free' ? null : startRound(gameMode, Date.now()))
+    restartTargets()
+  }, [gameMode, restartTargets])
+  useEffect(() => {
+    startNewRound()
+  }, [startNewRound, leaderboardKey])
+
+  // Clock for the HUD; also closes timed rounds
+  const roundActive = round != null && !isOver(round)
+  useEffect(() => {
+    if (!roundActive) return
+    const id = window.setInterval(() => {
+      const now = Date.now()
+      setClock(now)
+      setRound((r) => (r ? tick(r, now) : r))
+    }, 100)
+    return () => window.clearInterval(id)
+  }, [roundActive])
+
+  // Record a finished round once, then show the summary
+  const recordedRoundRef = useRef<number | null>(null)
+  useEffect(() => {
+    if (!round || !isOver(round) || !leaderboardKey || recordedRoundRef.current === round.startedAt) return
+    recordedRoundRef.current = round.startedAt
+    const entry = roundEntry(round)
+    if (entry) {
+      const result = addScore(leaderboards, leaderboardKey, round.mode, entry)
+      setLeaderboards(result.boards)
+      setLastRank(result.rank)
+    } else {
+      setLastRank(-1)
+    }
+    setSummaryOpen(true)
+  }, [round, leaderboardKey, leaderboards, setLeaderboards])
+
+  const scoreAnswer = useCallback((correct: boolean) => {
+    setRound((r) => (r && !isOver(r) ? applyAnswer(r, correct, Date.now()) : r))
+  }, [])
+
+  // Shareable drill: configuration plus seed in the URL hash
+  const applyDrill = useCallback((c: DrillConfig) => {
+    setStringCount(c.stringCount)
+    setTuning(c.tuning)
+    setFrets(c.frets)
+    setDrillStrings(c.strings)
+    setDrillFrets(c.fretRange)
+    if (isOneOf(c.trainingMode, TRAINING_MODES)) setTrainingMode(c.trainingMode)
+    setQuizMode(c.quizMode)
+    setFretWindow(c.window)
+    if (isOneOf(c.view, PROBLEM_VIEWS)) setProblemView(c.view)
+    if (isOneOf(c.format, READING_FORMATS)) setReadingFormat(c.format)
+    setSeqMeasures(c.measures)
+    setSeqRhythms(c.rhythms)
+    setSeqRests(c.rests)
+    setIntervalSet(c.intervals)
+    if (SETTINGS.intervalKind.check(c.intervalKind)) setIntervalKind(c.intervalKind)
+    if (SETTINGS.intervalReach.check(c.intervalReach)) setIntervalReach(c.intervalReach)
+    setPatternKey(c.patternKey)
+    if (SETTINGS.pattern.check(c.pattern)) setPatternId(c.pattern)
+    if (SETTINGS.patternOrder.check(c.patternOrder)) setPatternOrder(c.patternOrder)
+    setSeed(c.seed)
+  }, [setStringCount, setTuning, setFrets, setDrillStrings, setDrillFrets, setTrainingMode, setQuizMode, setFretWindow, setProblemView, setReadingFormat, setSeqMeasures, setSeqRhythms, setSeqRests, setIntervalSet, setIntervalKind, setIntervalReach, setPatternKey, setPatternId, setPatternOrder])
+
+  useEffect(() => {
+    const load = () => {
+      const c = decodeDrill(window.location.hash)
+      if (c) applyDrill(c)
+    }
+    load()
+    window.addEventListener('hashchange', load)
+    return () => window.removeEventListener('hashchange', load)
+  }, [applyDrill])
+
+  // Keep the hash in step with the settings while a seed is active, so the address is always the drill
+  const drillFor = useCallback((s: string): DrillConfig => ({
+    stringCount,
+    tuning,
+    frets,
+    strings: region.strings.length === stringCount ? [] : region.strings,
+    fretRange: region.frets,
+    trainingMode,
+    quizMode,
+    window: fretWindow,
+    view: problemView,
+    format: readingFormat,
+    measures: seqMeasures,
+    rhythms: seqRhythms,
+    rests: seqRests,
+    intervals: intervalSet,
+    intervalKind,
+    intervalReach,
+    patternKey,
+    pattern: patternId,
+    patternOrder,
+    seed: s,
+  }), [stringCount, tuning, frets, region, trainingMode, quizMode, fretWindow, problemView, readingFormat, seqMeasures, seqRhythms, seqRests, intervalSet, intervalKind, intervalReach, patternKey, patternId, patternOrder])
+  const drillHash = useMemo(() => (seed ? encodeDrill(drillFor(seed)) : null), [seed, drillFor])
+  useEffect(() => {
+    if (drillHash && window.location.hash !== drillHash) window.history.replaceState(null, '', drillHash)
+  }, [drillHash])
+
+  const shareDrill = () => {
+    const s = seed ?? randomSeed()
+    const url = `${window.location.origin}${window.location.pathname}${window.location.search}${encodeDrill(drillFor(s))}`
+    setSeed(s)
+    if (!navigator.clipboard) {
+      setShareNote(url)
+      return
+    }
+    navigator.clipboard.writeText(url)
+      .then(() => setShareNote(t.linkCopied))
+      .catch(() => setShareNote(url))
+  }
+
+  const startDaily = () => {
+    const c = dailyConfig(dailySeed())
+    applyDrill(c)
+    window.history.replaceState(null, '', encodeDrill(c))
+  }
+
+  const clearSeed = () => {
+    setSeed(null)
+    setShareNote(null)
+    window.history.replaceState(null, '', window.location.pathname + window.location.search)
+  }
+
+  // Constraint shown next to the note, e.g. "3현" or "5–9프렛" (TAB draws its own)
+  const constraintLabel = useMemo(() => {
+    const parts: string[] = []
+    if (requireString && targetPos && !tabNotation) parts.push(t.stringNumber(stringCount - targetPos.stringIndex))
+    if (intervalMode && intervalReach !== 'any') parts.push(intervalReach === 'same' ? t.sameString : t.adjacentString)
+    if (activeWindow) parts.push(t.fretRange(activeWindow.min, activeWindow.max))
+    return parts.length ? parts.join(' · ') : null
+  }, [requireString, targetPos, tabNotation, intervalMode, intervalReach, activeWindow, stringCount, t])
 
   // Animate problem banner on change
   useEffect(() => {
     if (currentMidi == null) return
-    const label = midiToNameOctave(currentMidi)
+    // ear training hides the note itself; interval training names the root and the distance
+    let name = earMode ? '?' : midiToNameOctave(currentMidi, spelling, keyFifths, noteNames)
+    if (intervalMode && intervalQ) {
+      const root = spellMidi(intervalQ.rootMidi, spelling, keyFifths)
+      name = intervalKind === 'degree'
+        ? t.degreeOf(formatNote(root, false, noteNames), degreeName(intervalQ.semitones, spelling))
+        : t.intervalAbove(formatNote(root, true, noteNames), intervalName(intervalQ.semitones, spelling, t.intervalNames))
+    }
+    if (patternMode && pattern) {
+      // the key is named without octave; ordered play also names the next degree
+      const done = pattern.order === 'ordered' ? pattern.index : pattern.found.length
+      const total = pattern.order === 'ordered' ? pattern.sequence.length : pattern.cells.length
+      const next = pattern.order === 'ordered' ? degreeOf(pattern.def, pattern.root, currentMidi) : null
+      name = `${formatNote(spellMidi(pattern.root, spelling, keyFifths), false, noteNames)} ${patternName(t, pattern.def.id)} · ${done}/${total}`
+      if (next) name += ` → ${next}`
+    }
+    const label = constraintLabel ? `${name} · ${constraintLabel}` : name
     // move current label to previous for exit animation
     setPrevBanner(prevLabelRef.current)
     setBanner(label)
     prevLabelRef.current = label
-    const t = window.setTimeout(() => setPrevBanner(null), 500)
-    return () => window.clearTimeout(t)
-  }, [currentMidi])
+    setTargetAnnouncement(earMode ? t.newEarTarget : t.newTarget(label))
+    const timer = window.setTimeout(() => setPrevBanner(null), 500)
+    return () => window.clearTimeout(timer)
+  }, [currentMidi, constraintLabel, earMode, intervalMode, intervalQ, intervalKind, patternMode, pattern, spelling, keyFifths, noteNames, t])
 
-  const onHit = useCallback(
-    (hit: Target) => {
+  // Ear training: optional reference (open string) then the target itself;
+  // interval training: the root
+  const promptTimersRef = useRef<number[]>([])
+  const playPrompt = useCallback(() => {
+    if (currentMidi == null) return
+    promptTimersRef.current.forEach((t) => window.clearTimeout(t))
+    promptTimersRef.current = []
+    try { audio.ensure() } catch { /* audio unavailable */ }
+    // with the mic listening, prompts are short and the mic ignores them while they sound
+    const playNote = (midi: number, string?: number) => {
+      if (inputMode !== 'mic') {
+        audio.playMidi(midi, { string })
+        return
+      }
+      audio.playMidi(midi, { string, duration: MIC_PROMPT_SECONDS })
+      audio.holdInput(MIC_PROMPT_SECONDS)
+    }
+    if (intervalMode) {
+      if (intervalQ) playNote(intervalQ.rootMidi, intervalQ.root.stringIndex)
+      return
+    }
+    let delay = 0
+    if (earReference === 'open') {
+      const stringIndex = targetPos?.stringIndex ?? region.strings[0]
+      const open = tuning[stringIndex]
+      promptTimersRef.current.push(window.setTimeout(() => playNote(open, stringIndex), delay))
+      delay += 700
+    }
+    promptTimersRef.current.push(window.setTimeout(() => playNote(currentMidi, targetPos?.stringIndex), delay))
+  }, [currentMidi, earReference, targetPos, region, tuning, intervalMode, intervalQ, inputMode])
+
+  useEffect(() => {
+    if (!(earMode || (intervalMode && soundOn)) || currentMidi == null) return
+    // leave room for the previous answer's note to be heard
+    const t = window.setTimeout(playPrompt, 450)
+    return () => {
+      window.clearTimeout(t)
+      promptTimersRef.current.forEach((id) => window.clearTimeout(id))
+    }
+  }, [earMode, intervalMode, soundOn, currentMidi, playPrompt])
+
+  // Tonic drone runs for as long as it is selected in ear training; the mic would hear it as answers
+  useEffect(() => {
+    if (!earMode || earReference !== 'drone' || inputMode === 'mic') return
+    try { audio.startDrone(24 + droneKey) } catch { /* audio unavailable */ }
+    return () => { try { audio.stopDrone() } catch { /* audio unavailable */ } }
+  }, [earMode, earReference, droneKey, inputMode])
+
+  // Shared answer path for every input: `hit` is the cell when the input knows it
+  const submitAnswer = useCallback(
+    (midi: number, hit: Target | null, exactMidi?: number) => {
       const nowTs = performance.now()
-      if (nowTs - lastHitTsRef.current < 60) return
-      lastHitTsRef.current = nowTs
       if (currentMidi == null) return
-      const midi = OPEN_MIDIS[stringCount][hit.stringIndex] + hit.fret
-      // Play the pressed note (stop previous first) if enabled
-      if (soundOn) {
-        try {
-          audio.ensure()
-          audio.playMidi(midi)
-        } catch {}
+      // a finished round takes no more answers until it is restarted
+      if (roundRef.current && isOver(roundRef.current)) return
+      // groove mode: the right note is also judged against its beat
+      const judgeGroove = () => {
+        const due = dueRef.current
+        if (!grooveOn || due == null || !metronomeRef.current?.running) return
+        dueRef.current = null
+        // the player hears the click late, and the mic reports notes late
+        const inputLatency = audio.outputLatency() + (hit ? 0 : micLatencyRef.current)
+        const offset = audio.getContext().currentTime - inputLatency - due
+        const timing = judgeTiming(offset, grooveWindow)
+        setGrooveResult({ timing, offsetMs: Math.round(offset * 1000), id: Date.now() })
+        setGrooveCounts((prev) => ({ ...prev, [timing]: prev[timing] + 1 }))
+        const streak = timing === 'onTime' ? grooveStreakRef.current + 1 : 0
+        grooveStreakRef.current = streak
+        if (tempoRamp) setMetronome((m) => ({ ...m, bpm: rampedBpm(m.bpm, streak) }))
+      }
+      // fretless: the right note must also be in tune; `exactMidi` is where the finger landed
+      let cents: number | null = null
+      const inTune = () => {
+        if (exactMidi == null) return true
+        const off = centsOff(exactMidi, midi)
+        cents = off
+        setIntonation((prev) => [...prev, off])
+        setCentsResult({ cents: off, id: Date.now() })
+        return Math.abs(off) <= centsTolerance
       }
-      const ok = midi === currentMidi
+      const cue = (correct: boolean) => {
+        const result = correct ? t.correct : t.wrong
+        announceResult(cents == null ? result : `${result} ${t.intonation.cents(cents)}`)
+        if (!feedbackSounds) return
+        try { audio.playFeedback(correct) } catch { /* audio unavailable */ }
+      }
+      // wrong feedback: shake + red overlay, and a lost life in survival
+      const fail = () => {
+        missedRef.current = true
+        scoreAnswer(false)
+        cue(false)
+        trigger()
+        setShowDamage(true)
+        setTimeout(() => setShowDamage(false), 350)
+      }
+      if (patternMode) {
+        const state = patternRef.current
+        if (!state || pendingNextRef.current) return
+        let next = answerPattern(state, tuning, midi, hit, octaveTolerant)
+        // a cell found earlier is neither right nor wrong
+        if (next === state) return
+        if (next && !inTune()) next = null
+        const latencyMs = nowTs - targetShownAtRef.current
+        setAttempts((prev) => appendAttempt(prev, {
+          ts: Date.now(),
+          targetMidi: next ? midi : currentMidi,
+          pressedMidi: midi,
+          stringIndex: hit ? hit.stringIndex : null,
+          fret: hit ? hit.fret : null,
+          correct: next != null,
+          latencyMs,
+        }))
+        if (!next) {
+          fail()
+          return
+        }
+        scoreAnswer(true)
+        cue(true)
+        judgeGroove()
+        const answer = { midi, cell: hit, correct: !missedRef.current, latencyMs }
+        setLearning((prev) => {
+          const updated = recordAnswer(prev, answer)
+          learningRef.current = updated
+          return updated
+        })
+        patternRef.current = next
+        setPattern(next)
+        if (isPatternComplete(next)) {
+          // leave the finished shape on the board for a moment
+          pendingNextRef.current = true
+          window.setTimeout(() => {
+            nextTarget()
+            pendingNextRef.current = false
+          }, 900)
+        } else {
+          presentTarget(patternTargetMidi(next, tuning))
+        }
+        return
+      }
+      const question = {
+        midi: currentMidi,
+        stringIndex: requireString && targetPos ? targetPos.stringIndex : null,
+        fret: requireFret && targetPos ? targetPos.fret : null,
+        window: activeWindow,
+      }
+      let ok = hit ? isCorrectHit(question, hit, tuning) : isCorrectPitch(question, midi, octaveTolerant)
+      if (intervalMode && intervalQ) {
+        // the octave toggle is only offered for mic and MIDI input, where no cell is known
+        ok = isCorrectInterval(intervalQ, intervalKind, intervalReach, midi, hit, hit ? false : octaveTolerant)
+          && (!hit || !activeWindow || (hit.fret >= activeWindow.min && hit.fret <= activeWindow.max))
+      }
+      if (ok && !pendingNextRef.current) ok = inTune()
+      const attempt: Attempt = {
+        ts: Date.now(),
+        targetMidi: currentMidi,
+        pressedMidi: midi,
+        stringIndex: hit ? hit.stringIndex : null,
+        fret: hit ? hit.fret : null,
+        correct: ok,
+        latencyMs: nowTs - targetShownAtRef.current,
+      }
+      // ignore extra taps on an already-answered target
+      if (!pendingNextRef.current) setAttempts((prev) => appendAttempt(prev, attempt))
       if (ok) {
         if (!pendingNextRef.current) {
           pendingNextRef.current = true
+          scoreAnswer(true)
+          cue(true)
+          judgeGroove()
+          // one record per target: correct only if answered without a miss
+          const answer = {
+            midi: currentMidi,
+            cell: hit,
+            correct: !missedRef.current,
+            latencyMs: nowTs - targetShownAtRef.current,
+          }
+          setLearning((prev) => {
+            const next = recordAnswer(prev, answer)
+            learningRef.current = next
+            return next
+          })
           requestAnimationFrame(() => {
             nextTarget()
             pendingNextRef.current = false
           })
         }
       } else {
-        // wrong feedback: shake + red overlay
-        trigger()
-        setShowDamage(true)
-        setTimeout(() => setShowDamage(false), 350)
+        // mark the wrong note in place on the phrase
+        const seq = sequenceRef.current
+        if (sequenceMode && seq && !seq.missed.includes(seq.cursor)) {
+          const next = { ...seq, missed: [...seq.missed, seq.cursor] }
+          sequenceRef.current = next
+          setSequence(next)
+        }
+        fail()
       }
     },
-    [currentMidi, nextTarget, trigger, stringCount, soundOn],
+    [currentMidi, targetPos, requireString, requireFret, activeWindow, intervalMode, intervalQ, intervalKind, intervalReach, patternMode, presentTarget, nextTarget, scoreAnswer, feedbackSounds, announceResult, t, centsTolerance, grooveOn, grooveWindow, tempoRamp, setMetronome, trigger, tuning, octaveTolerant, sequenceMode, setLearning, setAttempts],
   )
 
+  const onHit = useCallback(
+    (hit: Target, position?: number) => {
+      const nowTs = performance.now()
+      if (nowTs - lastHitTsRef.current < 60) return
+      lastHitTsRef.current = nowTs
+      if (currentMidi == null) return
+      const midi = midiAt(tuning, hit)
+      // fretless: the pitch exactly under the finger, between semitones
+      const exactMidi = position == null ? undefined : tuning[hit.stringIndex] + position
+      // Play the pressed note (stop previous first) if enabled
+      if (soundOn) {
+        try {
+          audio.ensure()
+          audio.playMidi(exactMidi ?? midi, { string: hit.stringIndex })
+        } catch {}
+      }
+      submitAnswer(midi, hit, exactMidi)
+    },
+    [currentMidi, tuning, soundOn, submitAnswer],
+  )
+
+  // Give up on the target: a miss for the round and the learner, then the next one
+  const skipTarget = useCallback(() => {
+    if (currentMidi == null || pendingNextRef.current) return
+    if (roundRef.current && isOver(roundRef.current)) return
+    scoreAnswer(false)
+    if (!patternMode) {
+      const answer = { midi: currentMidi, cell: null, correct: false, latencyMs: performance.now() - targetShownAtRef.current }
+      setLearning((prev) => {
+        const next = recordAnswer(prev, answer)
+        learningRef.current = next
+        return next
+      })
+    }
+    const seq = sequenceRef.current
+    if (sequenceMode && seq && !seq.missed.includes(seq.cursor)) {
+      const next = { ...seq, missed: [...seq.missed, seq.cursor] }
+      sequenceRef.current = next
+      setSequence(next)
+    }
+    nextTarget()
+  }, [currentMidi, patternMode, sequenceMode, scoreAnswer, nextTarget, setLearning])
+
+  const revealTarget = useCallback(() => {
+    if (currentMidi == null) return
+    missedRef.current = true
+    setRevealed(true)
+  }, [currentMidi])
+
+  // Microphone input: stable detected pitches go through the same answer path
+  const submitRef = useRef(submitAnswer)
+  useEffect(() => { submitRef.current = submitAnswer }, [submitAnswer])
+  useEffect(() => {
+    if (inputMode !== 'mic') return
+    const mic = new MicListener(audio)
+    const stabilize = createStabilizer()
+    let cancelled = false
+    setMicError(false)
+    mic.start((buf, sampleRate) => {
+      // the app's own prompt is still sounding: not an answer
+      if (audio.inputHeld()) {
+        stabilize(null)
+        return
+      }
+      const midi = stabilize(detectPitch(buf, sampleRate))
+      if (midi != null) submitRef.current(midi, null)
+    }).then(() => {
+      if (cancelled) mic.stop()
+      else micLatencyRef.current = mic.latency(STABLE_FRAMES)
+    }).catch(() => {
+      if (!cancelled) setMicError(true)
+    })
+    return () => {
+      cancelled = true
+      mic.stop()
+      micLatencyRef.current = 0
+    }
+  }, [inputMode])
+
+  // Web MIDI input: note-on messages, optionally mapped to a string by channel
+  const midiMapRef = useRef({ tuning, frets, midiChannelPerString, soundOn })
+  useEffect(() => {
+    midiMapRef.current = { tuning, frets, midiChannelPerString, soundOn }
+  }, [tuning, frets, midiChannelPerString, soundOn])
+  useEffect(() => {
+    if (inputMode !== 'midi') return
+    let disconnect: (() => void) | null = null
+    let cancelled = false
+    setMidiError(null)
+    if (!navigator.requestMIDIAccess) {
+      setMidiError('midiUnsupported')
+      return
+    }
+    navigator.requestMIDIAccess().then((access) => {
+      if (cancelled) return
+      disconnect = connectMidiInputs(
+        access,
+        (msg) => {
+          const map = midiMapRef.current
+          const hit = map.midiChannelPerString ? inferPosition(msg, map.tuning, map.frets) : null
+          if (map.soundOn) {
+            try {
+              audio.ensure()
+              audio.playMidi(msg.note, { string: hit?.stringIndex })
+            } catch { /* audio unavailable */ }
+          }
+          submitRef.current(msg.note, hit)
+        },
+        (inputs) => setMidiInputs(inputs.map((i) => i.name || i.id)),
+      )
+    }).catch(() => {
+      if (!cancelled) setMidiError('midiUnavailable')
+    })
+    return () => {
+      cancelled = true
+      disconnect?.()
+      setMidiInputs([])
+    }
+  }, [inputMode])
+
+  // Heatmap only counts presses made with the current tuning
+  const heatmap = useMemo(() => {
+    if (heatmapMetric === 'off') return undefined
+    const relevant = attempts.filter(
+      (a) => a.stringIndex != null && a.fret != null && tuning[a.stringIndex] + a.fret === a.pressedMidi,
+    )
+    return heatmapIntensities(relevant, heatmapMetric)
+  }, [attempts, heatmapMetric, tuning])
+
+  // Cells that answer the current target, shown on request
+  const answerTargets = useMemo<Target[]>(() => {
+    if (!revealed || currentMidi == null || !quizRegion) return []
+    if (intervalMode && intervalQ) return answerCells(tuning, intervalQ, intervalKind, intervalReach, quizRegion)
+    if (requireString && targetPos) {
+      return positionsOf(tuning, currentMidi, quizRegion)
+        .filter((t) => t.stringIndex === targetPos.stringIndex && (!requireFret || t.fret === targetPos.fret))
+    }
+    return positionsOf(tuning, currentMidi, quizRegion).filter((t) => !requireFret || !targetPos || t.fret === targetPos.fret)
+  }, [revealed, currentMidi, quizRegion, intervalMode, intervalQ, intervalKind, intervalReach, requireString, requireFret, targetPos, tuning])
+
+  // Spoken name of a cell, e.g. "A현 5프렛"
+  const cellLabel = useCallback((cell: Target) => {
+    const open = formatNote(spellMidi(tuning[cell.stringIndex], spelling, keyFifths), false, noteNames)
+    return t.cell(open, cell.fret)
+  }, [tuning, spelling, keyFifths, noteNames, t])
+
+  useEffect(() => {
+    if (answerTargets.length) announceResult(t.answerAt(answerTargets.map(cellLabel).join(', ')))
+  }, [answerTargets, cellLabel, announceResult, t])
+
+  // Board markers: the interval root, or the pattern cells revealed as they are answered,
+  // plus the answer when it was asked for
+  const markers = useMemo<FretMarker[] | undefined>(() => {
+    const answers = answerTargets.map((t): FretMarker => ({ ...t, color: REVEAL_COLOR, state: 'revealed' }))
+    if (intervalMode && intervalQ) return [{ ...intervalQ.root, label: 'R', color: ROOT_COLOR, state: 'shown' }, ...answers]
+    if (!patternMode || !pattern) return answers.length ? answers : undefined
+    return pattern.cells.map((t) => {
+      const midi = midiAt(tuning, t)
+      const degree = degreeOf(pattern.def, pattern.root, midi) ?? ''
+      const found = pattern.found.includes(cellKey(t.stringIndex, t.fret))
+      // revealing shows the next cell in ordered play, every remaining one otherwise
+      const shown = revealed && (pattern.order === 'all' || midi === currentMidi)
+      return {
+        ...t,
+        label: degree,
+        color: degree === '1' ? ROOT_COLOR : undefined,
+        state: found || shown ? 'revealed' : 'hidden',
+      }
+    })
+  }, [answerTargets, intervalMode, intervalQ, patternMode, pattern, tuning, revealed, currentMidi])
+
+  // Keyboard and gamepad: one handler for both, kept current for the listeners
+  const onBoardAction = (action: BoardAction) => {
+    if (action.kind === 'settings') setControlsOpen((open) => !open)
+    else if (action.kind === 'skip') skipTarget()
+    else if (action.kind === 'reveal') revealTarget()
+    else if (action.kind === 'replay') { if (earMode || intervalMode) playPrompt() }
+    else if (action.kind === 'answer') { if (cursor && inRegion(region, cursor)) onHit(cursor) }
+    else {
+      const next = moveCursor(cursor, action, region, stringCount, flipBoth)
+      if (next) setCursor(next)
+    }
+  }
+  const boardActionRef = useRef(onBoardAction)
+  useEffect(() => { boardActionRef.current = onBoardAction })
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      // form fields and buttons keep their own keys
+      const el = e.target as HTMLElement | null
+      if (el?.closest('input, select, textarea, button, [contenteditable="true"]')) return
+      const action = keyAction(e)
+      if (!action) return
+      e.preventDefault()
+      boardActionRef.current(action)
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [])
+  useEffect(() => {
+    if (!gamepadOn || !navigator.getGamepads) return
+    return connectGamepads((action) => boardActionRef.current(action))
+  }, [gamepadOn])
+
+  // Banner content for the chosen problem view
+  const renderProblem = (label: string) => {
+    if (currentMidi == null || !notation) return label
+    const staff = (
+      <StaffNote
+        midi={currentMidi}
+        spelling={spelling}
+        keyFifths={keyFifths}
+        notation={notation}
+        position={targetPos}
+        stringCount={stringCount}
+      />
+    )
+    if (problemView === 'textStaff') {
+      return (
+        <>
+          <div className="problem-text">{label}</div>
+          {staff}
+        </>
+      )
+    }
+    // TAB carries no pitch, so name the note under it
+    const caption = tabNotation
+      ? [midiToNameOctave(currentMidi, spelling, keyFifths, noteNames), constraintLabel].filter(Boolean).join(' · ')
+      : constraintLabel
+    return (
+      <>
+        {staff}
+        {caption && <div className="problem-constraint">{caption}</div>}
+      </>
+    )
+  }
+
+  const resetStats = () => {
+    setAttempts([])
+    setLearning(createLearningState())
+    setIntonation([])
+  }
+
+  // Metronome runs on the audio engine's clock while it or groove mode is on
+  const metronomeRunning = metronomeOn || grooveOn
+  const metronomeSettingsRef = useRef(metronome)
+  useEffect(() => {
+    metronomeSettingsRef.current = metronome
+    metronomeRef.current?.update(metronome)
+  }, [metronome])
+  useEffect(() => {
+    if (!metronomeRunning) return
+    const m = metronomeRef.current ?? (metronomeRef.current = new Metronome(audio))
+    const timers: number[] = []
+    let off = () => {}
+    try {
+      audio.ensure()
+      const ctx = audio.getContext()
+      m.start(metronomeSettingsRef.current)
+      // light the beat when it sounds, not when it is scheduled
+      off = m.onClick((c) => {
+        if (c.sub !== 0) return
+        const beats = metronomeSettingsRef.current.signature.beats
+        timers.push(window.setTimeout(() => setBeatInBar(c.beat % beats), Math.max(0, (c.time - ctx.currentTime) * 1000)))
+      })
+    } catch { /* audio unavailable */ }
+    grooveStreakRef.current = 0
+    setGrooveCounts({ early: 0, onTime: 0, late: 0 })
+    setGrooveResult(null)
+    return () => {
+      off()
+      m.stop()
+      timers.forEach((t) => window.clearTimeout(t))
+      setBeatInBar(null)
+    }
+  }, [metronomeRunning])
+
+  // Voice settings for the plucked note
+  useEffect(() => {
+    audio.setVoice(voice)
+    audio.setPluck({ tone: pluckTone, pluckPosition, mute: pluckMute })
+  }, [voice, pluckTone, pluckPosition, pluckMute])
+
+  const loadSamples = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    try {
+      const player = new SamplePlayer()
+      const data = await Promise.all(Array.from(files).map(async (f) => ({ name: f.name, data: await f.arrayBuffer() })))
+      const count = await player.load(audio.getContext(), data)
+      audio.setSamples(player)
+      setSampleNote(count ? t.samplesLoaded(count) : t.samplesUnnamed)
+    } catch {
+      setSampleNote(t.samplesFailed)
+    }
+  }
+
   // Immediately stop any ringing note when sound is toggled off
   useEffect(() => {
     if (!soundOn) {
-      try { audio.stopCurrent(40) } catch {}
+      try { audio.stopAll(40) } catch {}
     }
   }, [soundOn])
 
+  useEffect(() => {
+    audio.setVolume(volume)
+    audio.setMuted(muted)
+    audio.setSustain(sustain)
+  }, [volume, muted, sustain])
+
 
   return (
-    <div className={`app-root ${showDamage ? 'damage' : ''}`}>
-      <div className="viewport">
-        <div className={`stage ${shaking ? 'shake' : ''}`}>
-        <Fretboard
-          stringCount={stringCount}
-          frets={frets}
-          theme={theme}
-          inlayStyle={inlay}
-          sideDots={sideDots}
-          binding={binding}
-          flipBoth={flipBoth}
-          onHit={onHit}
-        />
-          {/* red overlay handled by .app-root.damage via CSS */}
-        </div>
-        {prevBanner && (
-          <div className="problem-banner exit">{problemView === 'staff' ? <StaffNote midi={currentMidi!} /> : prevBanner}</div>
-        )}
-        {banner && (
-          <div className="problem-banner enter">{problemView === 'staff' ? <StaffNote midi={currentMidi!} /> : banner}</div>
-        )}
-        <div className={`floating-controls ${controlsOpen ? 'open' : ''}`}>
-          <button
-            className="controls-toggle"
-            aria-expanded={controlsOpen}
-            aria-label="설정"
-            onClick={() => setControlsOpen((v) => !v)}
-          >
-            {controlsOpen ? <IoClose size={28} /> : <FiSettings size={26} />}
-          </button>
-          <div className="controls-body">
-          <label className="control small">
-            <span>현 수</span>
-            <select
-              value={stringCount}
-              onChange={(e) => setStringCount(Number(e.target.value) as StringCount)}
-            >
-              <option value={4}>4</option>
-              <option value={5}>5</option>
-              <option value={6}>6</option>
-            </select>
-          </label>
-          <label className="control small">
-            <span>프렛</span>
-            <select value={frets} onChange={(e) => setFrets(Number(e.target.value))}>
-              <option value={12}>12</option>
-              <option value={21}>21</option>
-              <option value={22}>22</option>
-              <option value={23}>23</option>
-              <option value={24}>24</option>
-            </select>
-          </label>
-          <label className="control small">
-            <span>지판</span>
-            <select value={theme} onChange={(e) => setTheme(e.target.value as BoardTheme)}>
-              <option value="ebony">에보니</option>
-              <option value="maple">메이플</option>
-              <option value="rosewood">로즈우드</option>
-              <option value="pauferro">포페로</option>
-            </select>
-          </label>
-          <label className="control small">
-            <span>인레이</span>
-            <select value={inlay} onChange={(e) => setInlay(e.target.value as InlayStyle)}>
-              <option value="dot">닷</option>
-              <option value="block">블록</option>
-              <option value="none">없음</option>
-            </select>
-          </label>
-          <label className="control small">
-            <span>소리 재생</span>
-            <input
-              type="checkbox"
-              checked={soundOn}
-              onChange={(e) => setSoundOn(e.target.checked)}
-            />
-          </label>
-          <label className="control small">
-            <span>문제 표시</span>
-            <select
-              value={problemView}
-              onChange={(e) => setProblemView(e.target.value as ProblemView)}
-            >
-              <option value="text">텍스트</option>
-              <option value="staff">악보</option>
-            </select>
-          </label>
-          <label className="control small">
-            <span>사이드닷</span>
-            <input
-              type="checkbox"
-              checked={sideDots}
-              onChange={(e) => setSideDots(e.target.checked)}
+    <I18nContext value={i18n}>
+      <div className={`app-root ${showDamage ? 'damage' : ''} ${reducedMotion ? 'reduced-motion' : ''}`}>
+        <div className="sr-only" aria-live="polite" aria-atomic="true">{targetAnnouncement}</div>
+        <div className="sr-only" role="status" aria-atomic="true">{resultAnnouncement}</div>
+        <div className="viewport">
+          <div className={`stage ${shaking ? 'shake' : ''}`}>
+          <Fretboard
+            stringCount={stringCount}
+            frets={frets}
+            theme={theme}
+            inlayStyle={inlay}
+            sideDots={sideDots}
+            binding={binding}
+            flipBoth={flipBoth}
+            heatmap={heatmap}
+            region={region}
+            markers={markers}
+            cursor={cursor}
+            cellLabel={cellLabel}
+            fretless={fretless}
+            fretLines={fretLines}
+            scales={scales}
+            onHit={onHit}
+          />
+            {/* red overlay handled by .app-root.damage via CSS */}
+          </div>
+          {sequenceMode && sequence && (
+            <div className="problem-banner sequence">
+              <StaffSequence
+                events={sequence.events}
+                cursor={sequence.cursor}
+                missed={sequence.missed}
+                spelling={spelling}
+                keyFifths={keyFifths}
+                notation={sequenceNotation}
+              />
+              {constraintLabel && <div className="problem-constraint">{constraintLabel}</div>}
+            </div>
+          )}
+          {!sequenceMode && prevBanner && (
+            <div className="problem-banner exit">{renderProblem(prevBanner)}</div>
+          )}
+          {!sequenceMode && banner && (
+            <div className="problem-banner enter">{renderProblem(banner)}</div>
+          )}
+          {(earMode || intervalMode) && (
+            <button className="ear-replay" aria-label={intervalMode ? t.replayRoot : t.replay} onClick={playPrompt}>
+              <FiRepeat size={22} />
+              <span>{intervalMode ? t.replayRoot : t.replay}</span>
+            </button>
+          )}
+          {round && <GameHud round={round} now={clock} />}
+          {fretless && centsResult && (
+            <div key={centsResult.id} className={`cents-result ${Math.abs(centsResult.cents) <= centsTolerance ? 'in-tune' : 'off'}`}>
+              {t.intonation.cents(centsResult.cents)}
+            </div>
+          )}
+          <PwaPrompts />
+          {metronomeRunning && (
+            <MetronomeHud
+              beats={beatsPerBar}
+              current={beatInBar}
+              answerBeat={grooveOn ? answerBeat : null}
+              bpm={metronome.bpm}
+              result={grooveOn ? grooveResult : null}
+              counts={grooveOn ? grooveCounts : null}
             />
-          </label>
-          <label className="control small">
-            <span>바인딩</span>
-            <input
-              type="checkbox"
-              checked={binding}
-              onChange={(e) => setBinding(e.target.checked)}
+          )}
+          {round && summaryOpen && isOver(round) && (
+            <RoundSummary
+              round={round}
+              best={leaderboardKey ? leaderboards[leaderboardKey] ?? [] : []}
+              rank={lastRank}
+              intonation={fretless ? intonation : null}
+              centsTolerance={centsTolerance}
+              onRestart={startNewRound}
+              onClose={() => setGameMode('free')}
             />
-          </label>
-          <label className="control small">
-            <span>상하좌우 반전</span>
-            <input
-              type="checkbox"
-              checked={flipBoth}
-              onChange={(e) => setFlipBoth(e.target.checked)}
+          )}
+          {statsOpen && (
+            <StatsPanel
+              title={earMode ? t.stats.titleEar : intervalMode ? t.stats.titleInterval : patternMode ? t.stats.titlePattern : t.stats.title}
+              attempts={attempts}
+              stringCount={stringCount}
+              spelling={spelling}
+              keyFifths={keyFifths}
+              intonation={fretless ? intonation : null}
+              centsTolerance={centsTolerance}
+              onClose={() => setStatsOpen(false)}
+              onReset={resetStats}
             />
-          </label>
+          )}
+          <div className={`floating-controls ${controlsOpen ? 'open' : ''}`}>
+            <button
+              className="controls-toggle"
+              aria-expanded={controlsOpen}
+              aria-label={t.settings}
+              onClick={() => setControlsOpen((v) => !v)}
+            >
+              {controlsOpen ? <IoClose size={28} /> : <FiSettings size={26} />}
+            </button>
+            <div className="controls-body">
+            <ProfileControls profiles={profiles} onChange={onProfilesChange} />
+            <label className="control small">
+              <span>{t.controls.language}</span>
+              <select value={localeSetting} onChange={(e) => setLocaleSetting(e.target.value as LocaleSetting)}>
+                <option value="auto">{t.options.localeAuto}</option>
+                {LOCALES.map((l) => <option key={l} value={l}>{LOCALE_NAMES[l]}</option>)}
+              </select>
+            </label>
+            <label className="control small">
+              <span>{t.controls.noteNaming}</span>
+              <select value={noteNaming} onChange={(e) => setNoteNaming(e.target.value as NoteNaming)}>
+                <option value="letter">{t.options.noteNaming.letter}</option>
+                <option value="solfege">{t.options.noteNaming.solfege}</option>
+                <option value="german">{t.options.noteNaming.german}</option>
+              </select>
+            </label>
+            <label className="control small">
+              <span>{t.controls.stringCount}</span>
+              <select
+                value={stringCount}
+                onChange={(e) => {
+                  const n = Number(e.target.value) as StringCount
+                  setStringCount(n)
+                  setTuning(standardTuning(n))
+                }}
+              >
+                {STRING_COUNTS.map((n) => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+            <label className="control small">
+              <span>{t.controls.tuning}</span>
+              <select
+                value={tuningPreset?.id ?? 'custom'}
+                onChange={(e) => {
+                  const preset = TUNING_PRESETS[stringCount].find((p) => p.id === e.target.value)
+                  if (preset) setTuning(preset.strings.slice())
+                }}
+              >
+                {TUNING_PRESETS[stringCount].map((p) => (
+                  <option key={p.id} value={p.id}>{tuningName(t, p.id)}</option>
+                ))}
+                {!tuningPreset && <option value="custom">{t.controls.customTuning}</option>}
+              </select>
+            </label>
+            {/* per-string editor, listed from the highest string down like the board */}
+            {tuning.map((open, i) => ({ open, i })).reverse().map(({ open, i }) => (
+              <label key={`tuning-${i}`} className="control small">
+                <span>{t.stringNumber(stringCount - i)}</span>
+                <select
+                  value={open}
+                  onChange={(e) => {
+                    const next = tuning.slice()
+                    next[i] = Number(e.target.value)
+                    setTuning(next)
+                  }}
+                >
+                  {TUNING_PITCHES.map((m) => (
+                    <option key={m} value={m}>{midiToNameOctave(m, spelling, keyFifths, noteNames)}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+            <label className="control small">
+              <span>{t.controls.frets}</span>
+              <select value={frets} onChange={(e) => setFrets(Number(e.target.value))}>
+                {FRET_COUNTS.map((n) => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <label className="control small">
+              <span>{t.controls.scaleLength}</span>
+              <select aria-label={t.controls.scaleBass} value={scaleBass} onChange={(e) => setScaleBass(Number(e.target.value))}>
+                {SCALE_LENGTHS.map((l) => <option key={l} value={l}>{l}"</option>)}
+              </select>
+              →
+              <select aria-label={t.controls.scaleTreble} value={scaleTreble} onChange={(e) => setScaleTreble(Number(e.target.value))}>
+                {SCALE_LENGTHS.map((l) => <option key={l} value={l}>{l}"</option>)}
+              </select>
+            </label>
+            {isFanned(scales) && (
+              <label className="control small">
+                <span>{t.controls.perpendicularFret}</span>
+                <select value={perpendicularFret} onChange={(e) => setPerpendicularFret(Number(e.target.value))}>
+                  {PERPENDICULAR_FRETS.map((n) => (
+                    <option key={n} value={n}>{n === 0 ? t.options.perpendicularNut : n}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className="control small">
+              <span>{t.controls.theme}</span>
+              <select value={theme} onChange={(e) => setTheme(e.target.value as BoardTheme)}>
+                <option value="ebony">{t.options.theme.ebony}</option>
+                <option value="maple">{t.options.theme.maple}</option>
+                <option value="rosewood">{t.options.theme.rosewood}</option>
+                <option value="pauferro">{t.options.theme.pauferro}</option>
+                <option value="contrastDark">{t.options.theme.contrastDark}</option>
+                <option value="contrastLight">{t.options.theme.contrastLight}</option>
+              </select>
+            </label>
+            <label className="control small">
+              <span>{t.controls.reducedMotion}</span>
+              <input type="checkbox" checked={reducedMotion} onChange={(e) => setReducedMotion(e.target.checked)} />
+            </label>
+            <label className="control small">
+              <span>{t.controls.inlay}</span>
+              <select value={inlay} onChange={(e) => setInlay(e.target.value as InlayStyle)}>
+                <option value="dot">{t.options.inlay.dot}</option>
+                <option value="block">{t.options.inlay.block}</option>
+                <option value="none">{t.options.inlay.none}</option>
+              </select>
+            </label>
+            <label className="control small">
+              <span>{t.controls.fretless}</span>
+              <input type="checkbox" checked={fretless} onChange={(e) => setFretless(e.target.checked)} />
+            </label>
+            {fretless && (
+              <>
+                <label className="control small">
+                  <span>{t.controls.fretLines}</span>
+                  <select value={fretLines} onChange={(e) => setFretLines(e.target.value as FretLines)}>
+                    <option value="lined">{t.options.fretLines.lined}</option>
+                    <option value="unlined">{t.options.fretLines.unlined}</option>
+                  </select>
+                </label>
+                <label className="control small">
+                  <span>{t.controls.centsTolerance}</span>
+                  <select value={centsTolerance} onChange={(e) => setCentsTolerance(Number(e.target.value))}>
+                    {CENTS_TOLERANCES.map((c) => (
+                      <option key={c} value={c}>{t.options.centsTolerance[c]} (±{c}¢)</option>
+                    ))}
+                  </select>
+                </label>
+              </>
+            )}
+            <label className="control small">
+              <span>{t.controls.sound}</span>
+              <input
+                type="checkbox"
+                checked={soundOn}
+                onChange={(e) => setSoundOn(e.target.checked)}
+              />
+            </label>
+            <label className="control small">
+              <span>{t.controls.volume}</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={volume}
+                disabled={muted}
+                onChange={(e) => setVolume(Number(e.target.value))}
+              />
+            </label>
+            <label className="control small">
+              <span>{t.controls.mute}</span>
+              <input type="checkbox" checked={muted} onChange={(e) => setMuted(e.target.checked)} />
+            </label>
+            <label className="control small">
+              <span>{t.controls.sustain}</span>
+              <select value={sustain} onChange={(e) => setSustain(e.target.value as SustainMode)}>
+                <option value="ring">{t.options.sustain.ring}</option>
+                <option value="staccato">{t.options.sustain.staccato}</option>
+              </select>
+            </label>
+            <label className="control small">
+              <span>{t.controls.feedbackSounds}</span>
+              <input type="checkbox" checked={feedbackSounds} onChange={(e) => setFeedbackSounds(e.target.checked)} />
+            </label>
+            <label className="control small">
+              <span>{t.controls.metronome}</span>
+              <input type="checkbox" checked={metronomeOn} onChange={(e) => setMetronomeOn(e.target.checked)} />
+            </label>
+            {metronomeRunning && (
+              <>
+                <label className="control small">
+                  <span>BPM</span>
+                  <input
+                    type="number"
+                    min={MIN_BPM}
+                    max={MAX_BPM}
+                    value={metronome.bpm}
+                    onChange={(e) => {
+                      const bpm = Number(e.target.value)
+                      if (bpm >= MIN_BPM && bpm <= MAX_BPM) setMetronome({ ...metronome, bpm })
+                    }}
+                  />
+                </label>
+                <label className="control small">
+                  <span>{t.controls.signature}</span>
+                  <select
+                    value={`${metronome.signature.beats}/${metronome.signature.unit}`}
+                    onChange={(e) => {
+                      const signature = TIME_SIGNATURES.find((t) => `${t.beats}/${t.unit}` === e.target.value)
+                      if (signature) setMetronome({ ...metronome, signature })
+                    }}
+                  >
+                    {TIME_SIGNATURES.map((t) => (
+                      <option key={`${t.beats}/${t.unit}`} value={`${t.beats}/${t.unit}`}>{t.beats}/{t.unit}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="control small">
+                  <span>{t.controls.subdivision}</span>
+                  <select
+                    value={metronome.subdivision}
+                    onChange={(e) => setMetronome({ ...metronome, subdivision: Number(e.target.value) as Subdivision })}
+                  >
+                    <option value={1}>{t.options.subdivision[1]}</option>
+                    <option value={2}>{t.options.subdivision[2]}</option>
+                    <option value={3}>{t.options.subdivision[3]}</option>
+                    <option value={4}>{t.options.subdivision[4]}</option>
+                  </select>
+                </label>
+                <label className="control small">
+                  <span>{t.controls.accent}</span>
+                  <input type="checkbox" checked={metronome.accent} onChange={(e) => setMetronome({ ...metronome, accent: e.target.checked })} />
+                </label>
+              </>
+            )}
+            <label className="control small">
+              <span>{t.controls.groove}</span>
+              <input type="checkbox" checked={grooveOn} onChange={(e) => setGrooveOn(e.target.checked)} />
+            </label>
+            {grooveOn && (
+              <>
+                <label className="control small">
+                  <span>{t.controls.grooveBeat}</span>
+                  <select value={answerBeat + 1} onChange={(e) => setGrooveBeat(Number(e.target.value))}>
+                    {Array.from({ length: beatsPerBar }, (_, i) => <option key={i} value={i + 1}>{i + 1}</option>)}
+                  </select>
+                </label>
+                <label className="control small">
+                  <span>{t.controls.grooveWindow}</span>
+                  <select value={grooveWindow} onChange={(e) => setGrooveWindow(Number(e.target.value))}>
+                    <option value={50}>{t.options.grooveWindow[50]} (±50ms)</option>
+                    <option value={90}>{t.options.grooveWindow[90]} (±90ms)</option>
+                    <option value={140}>{t.options.grooveWindow[140]} (±140ms)</option>
+                  </select>
+                </label>
+                <label className="control small">
+                  <span>{t.controls.tempoRamp}</span>
+                  <input type="checkbox" checked={tempoRamp} onChange={(e) => setTempoRamp(e.target.checked)} />
+                </label>
+              </>
+            )}
+            <label className="control small">
+              <span>{t.controls.voice}</span>
+              <select value={voice} onChange={(e) => setVoice(e.target.value as VoiceKind)}>
+                <option value="pluck">{t.options.voice.pluck}</option>
+                <option value="samples">{t.options.voice.samples}</option>
+              </select>
+            </label>
+            {voice === 'pluck' && (
+              <>
+                <label className="control small">
+                  <span>{t.controls.tone}</span>
+                  <input type="range" min={0} max={1} step={0.05} value={pluckTone} onChange={(e) => setPluckTone(Number(e.target.value))} />
+                </label>
+                <label className="control small">
+                  <span>{t.controls.pluckPosition}</span>
+                  <input type="range" min={0} max={1} step={0.05} value={pluckPosition} onChange={(e) => setPluckPosition(Number(e.target.value))} />
+                </label>
+                <label className="control small">
+                  <span>{t.controls.pluckMute}</span>
+                  <input type="range" min={0} max={1} step={0.05} value={pluckMute} onChange={(e) => setPluckMute(Number(e.target.value))} />
+                </label>
+              </>
+            )}
+            {voice === 'samples' && (
+              <label className="control small">
+                <span>{t.controls.sampleFiles}</span>
+                <input type="file" accept="audio/*" multiple onChange={(e) => loadSamples(e.target.files)} />
+                <span className="control-note">{sampleNote ?? t.samplesHint}</span>
+              </label>
+            )}
+            <label className="control small">
+              <span>{t.controls.problemView}</span>
+              <select
+                value={problemView}
+                onChange={(e) => setProblemView(e.target.value as ProblemView)}
+              >
+                <option value="text">{t.options.problemView.text}</option>
+                <option value="staff">{t.options.problemView.staff}</option>
+                <option value="staffConcert">{t.options.problemView.staffConcert}</option>
+                <option value="treble">{t.options.problemView.treble}</option>
+                <option value="textStaff">{t.options.problemView.textStaff}</option>
+                <option value="tabString">{t.options.problemView.tabString}</option>
+                <option value="tabFret">{t.options.problemView.tabFret}</option>
+              </select>
+            </label>
+            <div className="control small">
+              <span>{t.controls.drillStrings}</span>
+              {tuning.map((_, i) => i).reverse().map((i) => (
+                <label key={`drill-string-${i}`} className="string-toggle">
+                  <input
+                    type="checkbox"
+                    checked={region.strings.includes(i)}
+                    onChange={(e) => {
+                      const next = e.target.checked
+                        ? [...region.strings, i]
+                        : region.strings.filter((k) => k !== i)
+                      // keep at least one string enabled
+                      if (next.length > 0) setDrillStrings(next.sort((a, b) => a - b))
+                    }}
+                  />
+                  {stringCount - i}
+                </label>
+              ))}
+            </div>
+            <label className="control small">
+              <span>{t.controls.drillFrets}</span>
+              <select
+                value={region.frets.min}
+                onChange={(e) => setDrillFrets(clampWindow({ min: Number(e.target.value), max: Math.max(Number(e.target.value), region.frets.max) }, frets))}
+              >
+                {Array.from({ length: frets + 1 }, (_, f) => <option key={f} value={f}>{f}</option>)}
+              </select>
+              <span>–</span>
+              <select
+                value={region.frets.max}
+                onChange={(e) => setDrillFrets(clampWindow({ min: Math.min(region.frets.min, Number(e.target.value)), max: Number(e.target.value) }, frets))}
+              >
+                {Array.from({ length: frets + 1 }, (_, f) => <option key={f} value={f}>{f}</option>)}
+              </select>
+            </label>
+            <label className="control small">
+              <span>{t.controls.trainingMode}</span>
+              <select value={trainingMode} onChange={(e) => setTrainingMode(e.target.value as TrainingMode)}>
+                <option value="reading">{t.options.trainingMode.reading}</option>
+                <option value="ear">{t.options.trainingMode.ear}</option>
+                <option value="interval">{t.options.trainingMode.interval}</option>
+                <option value="pattern">{t.options.trainingMode.pattern}</option>
+              </select>
+            </label>
+            {patternMode && (
+              <>
+                <label className="control small">
+                  <span>{t.controls.patternKey}</span>
+                  <select value={patternKey} onChange={(e) => setPatternKey(Number(e.target.value))}>
+                    {NOTE_NAMES_SHARP.map((_, pc) => (
+                      <option key={pc} value={pc}>{formatNote(spellMidi(pc, spelling, keyFifths), false, noteNames)}</option>
+                    ))}
+                  </select>
+                  <select value={patternDef.id} onChange={(e) => setPatternId(e.target.value)}>
+                    <optgroup label={t.options.patternKind.scale}>
+                      {PATTERNS.filter((p) => p.kind === 'scale').map((p) => <option key={p.id} value={p.id}>{patternName(t, p.id)}</option>)}
+                    </optgroup>
+                    <optgroup label={t.options.patternKind.arpeggio}>
+                      {PATTERNS.filter((p) => p.kind === 'arpeggio').map((p) => <option key={p.id} value={p.id}>{patternName(t, p.id)}</option>)}
+                    </optgroup>
+                  </select>
+                </label>
+                <label className="control small">
+                  <span>{t.controls.patternOrder}</span>
+                  <select value={patternOrder} onChange={(e) => setPatternOrder(e.target.value as PatternOrder)}>
+                    <option value="ordered">{t.options.patternOrder.ordered}</option>
+                    <option value="all">{t.options.patternOrder.all}</option>
+                  </select>
+                </label>
+              </>
+            )}
+            {intervalMode && (
+              <>
+                <label className="control small">
+                  <span>{t.controls.intervalKind}</span>
+                  <select value={intervalKind} onChange={(e) => setIntervalKind(e.target.value as IntervalKind)}>
+                    <option value="interval">{t.options.intervalKind.interval}</option>
+                    <option value="degree">{t.options.intervalKind.degree}</option>
+                  </select>
+                </label>
+                <div className="control small">
+                  <span>{intervalKind === 'degree' ? t.controls.degrees : t.controls.intervals}</span>
+                  {INTERVAL_SEMITONES.filter((s) => intervalKind === 'interval' || s !== 12).map((s) => (
+                    <label key={`interval-${s}`} className="string-toggle">
+                      <input
+                        type="checkbox"
+                        checked={intervalSet.includes(s)}
+                        onChange={(e) => {
+                          const next = e.target.checked ? [...intervalSet, s] : intervalSet.filter((k) => k !== s)
+                          // keep at least one interval enabled
+                          if (next.length > 0) setIntervalSet(next.sort((a, b) => a - b))
+                        }}
+                      />
+                      {intervalKind === 'degree' ? degreeName(s, spelling) : intervalName(s, spelling, t.intervalNames)}
+                    </label>
+                  ))}
+                </div>
+                <label className="control small">
+                  <span>{t.controls.intervalReach}</span>
+                  <select value={intervalReach} onChange={(e) => setIntervalReach(e.target.value as IntervalReach)}>
+                    <option value="any">{t.options.intervalReach.any}</option>
+                    <option value="same">{t.options.intervalReach.same}</option>
+                    <option value="adjacent">{t.options.intervalReach.adjacent}</option>
+                  </select>
+                </label>
+              </>
+            )}
+            {earMode && (
+              <label className="control small">
+                <span>{t.controls.earReference}</span>
+                <select value={earReference} onChange={(e) => setEarReference(e.target.value as EarReference)}>
+                  <option value="none">{t.options.earReference.none}</option>
+                  <option value="open">{t.options.earReference.open}</option>
+                  <option value="drone" disabled={inputMode === 'mic'}>{t.options.earReference.drone}</option>
+                </select>
+                {earReference === 'drone' && (
+                  <select value={droneKey} onChange={(e) => setDroneKey(Number(e.target.value))}>
+                    {NOTE_NAMES_SHARP.map((n, pc) => <option key={n} value={pc}>{formatNote(spellMidi(pc, spelling, keyFifths), false, noteNames)}</option>)}
+                  </select>
+                )}
+              </label>
+            )}
+            <label className="control small">
+              <span>{t.controls.quizMode}</span>
+              <select value={quizMode} onChange={(e) => setQuizMode(e.target.value as QuizMode)}>
+                <option value="pitch">{t.options.quizMode.pitch}</option>
+                <option value="string">{t.options.quizMode.string}</option>
+                <option value="window">{t.options.quizMode.window}</option>
+              </select>
+            </label>
+            {quizMode === 'window' && (
+              <label className="control small">
+                <span>{t.controls.quizWindow}</span>
+                <select
+                  value={fretWindow.min}
+                  onChange={(e) => setFretWindow(clampWindow({ min: Number(e.target.value), max: Math.max(Number(e.target.value), fretWindow.max) }, frets))}
+                >
+                  {Array.from({ length: frets + 1 }, (_, f) => <option key={f} value={f}>{f}</option>)}
+                </select>
+                <span>–</span>
+                <select
+                  value={fretWindow.max}
+                  onChange={(e) => setFretWindow(clampWindow({ min: Math.min(fretWindow.min, Number(e.target.value)), max: Number(e.target.value) }, frets))}
+                >
+                  {Array.from({ length: frets + 1 }, (_, f) => <option key={f} value={f}>{f}</option>)}
+                </select>
+              </label>
+            )}
+            <label className="control small">
+              <span>{t.controls.selection}</span>
+              <select
+                value={selection}
+                onChange={(e) => setSelection(e.target.value as TargetSelection)}
+              >
+                <option value="adaptive">{t.options.selection.adaptive}</option>
+                <option value="shuffle">{t.options.selection.shuffle}</option>
+              </select>
+              {seed && <span className="control-note">{t.seededShuffle}</span>}
+            </label>
+            <label className="control small">
+              <span>{t.controls.input}</span>
+              <select value={inputMode} onChange={(e) => setInputMode(e.target.value as InputMode)}>
+                <option value="touch">{t.options.inputMode.touch}</option>
+                <option value="mic">{t.options.inputMode.mic}</option>
+                <option value="midi">MIDI</option>
+              </select>
+              {inputMode === 'mic' && micError && <span className="control-error">{t.micUnavailable}</span>}
+              {inputMode === 'midi' && (midiError
+                ? <span className="control-error">{t[midiError]}</span>
+                : <span className="control-note">{midiInputs.length ? midiInputs.join(', ') : t.noDevices}</span>)}
+            </label>
+            {inputMode === 'midi' && (
+              <label className="control small">
+                <span>{t.controls.channelPerString}</span>
+                <input
+                  type="checkbox"
+                  checked={midiChannelPerString}
+                  onChange={(e) => setMidiChannelPerString(e.target.checked)}
+                />
+              </label>
+            )}
+            <label className="control small">
+              <span>{t.controls.gamepad}</span>
+              <input type="checkbox" checked={gamepadOn} onChange={(e) => setGamepadOn(e.target.checked)} />
+            </label>
+            <div className="control small shortcut-help">
+              <span>{t.controls.shortcuts}</span>
+              <dl>
+                {SHORTCUTS.map((s) => (
+                  <div key={s.keys}><dt>{s.keys}</dt><dd>{t.shortcuts[s.action]}</dd></div>
+                ))}
+              </dl>
+            </div>
+            {inputMode !== 'touch' && (
+              <label className="control small">
+                <span>{t.controls.octaveTolerant}</span>
+                <input
+                  type="checkbox"
+                  checked={octaveTolerant}
+                  onChange={(e) => setOctaveTolerant(e.target.checked)}
+                />
+              </label>
+            )}
+            <label className="control small">
+              <span>{t.controls.heatmap}</span>
+              <select
+                value={heatmapMetric}
+                onChange={(e) => setHeatmapMetric(e.target.value as HeatmapMetric)}
+              >
+                <option value="off">{t.options.heatmap.off}</option>
+                <option value="errors">{t.options.heatmap.errors}</option>
+                <option value="slowness">{t.options.heatmap.slowness}</option>
+              </select>
+            </label>
+            <label className="control small">
+              <span>{t.controls.game}</span>
+              <select value={gameMode} onChange={(e) => setGameMode(e.target.value as GameMode)}>
+                <option value="free">{t.options.gameMode.free}</option>
+                <option value="timed">{t.options.gameMode.timed}</option>
+                <option value="sprint">{t.options.gameMode.sprint}</option>
+                <option value="survival">{t.options.gameMode.survival}</option>
+              </select>
+            </label>
+            {gameMode !== 'free' && (
+              <button className="control small" onClick={startNewRound}>
+                <FiRepeat size={18} />
+                <span>{t.controls.newRound}</span>
+              </button>
+            )}
+            <div className="control small">
+              <span>{t.controls.seed}</span>
+              {seed && <span className="control-note">{isDailySeed(seed) ? t.dailySeed(seed.slice(6)) : seed}</span>}
+              <button className="control-inline" onClick={shareDrill}>{t.controls.copyLink}</button>
+              <button className="control-inline" onClick={startDaily}>{t.dailyChallenge}</button>
+              {seed && <button className="control-inline" onClick={clearSeed}>{t.controls.clearSeed}</button>}
+              {shareNote && <span className="control-note">{shareNote}</span>}
+            </div>
+            <button className="control small" onClick={() => setStatsOpen(true)}>
+              <FiBarChart2 size={18} />
+              <span>{t.controls.stats}</span>
+            </button>
+            {trainingMode === 'reading' && (
+              <label className="control small">
+                <span>{t.controls.readingFormat}</span>
+                <select value={readingFormat} onChange={(e) => setReadingFormat(e.target.value as ReadingFormat)}>
+                  <option value="single">{t.options.readingFormat.single}</option>
+                  <option value="sequence">{t.options.readingFormat.sequence}</option>
+                </select>
+              </label>
+            )}
+            {sequenceMode && (
+              <>
+                <label className="control small">
+                  <span>{t.controls.measures}</span>
+                  <select value={seqMeasures} onChange={(e) => setSeqMeasures(Number(e.target.value))}>
+                    <option value={1}>1</option>
+                    <option value={2}>2</option>
+                    <option value={4}>4</option>
+                  </select>
+                </label>
+                <label className="control small">
+                  <span>{t.controls.rhythms}</span>
+                  <input type="checkbox" checked={seqRhythms} onChange={(e) => setSeqRhythms(e.target.checked)} />
+                </label>
+                <label className="control small">
+                  <span>{t.controls.rests}</span>
+                  <input type="checkbox" checked={seqRests} onChange={(e) => setSeqRests(e.target.checked)} />
+                </label>
+              </>
+            )}
+            <label className="control small">
+              <span>{t.controls.spelling}</span>
+              <select value={spelling} onChange={(e) => setSpelling(e.target.value as SpellingPreference)}>
+                <option value="sharps">♯</option>
+                <option value="flats">♭</option>
+                <option value="mixed">{t.options.spelling.mixed}</option>
+                <option value="key">{t.options.spelling.key}</option>
+              </select>
+            </label>
+            <label className="control small">
+              <span>{t.controls.keySignature}</span>
+              <select value={keyFifths} onChange={(e) => setKeyFifths(Number(e.target.value))}>
+                {KEY_SIGNATURES.map((k) => (
+                  <option key={k.fifths} value={k.fifths}>{k.name.replace('b', '♭').replace('#', '♯')}</option>
+                ))}
+              </select>
+            </label>
+            <label className="control small">
+              <span>{t.controls.sideDots}</span>
+              <input
+                type="checkbox"
+                checked={sideDots}
+                onChange={(e) => setSideDots(e.target.checked)}
+              />
+            </label>
+            <label className="control small">
+              <span>{t.controls.binding}</span>
+              <input
+                type="checkbox"
+                checked={binding}
+                onChange={(e) => setBinding(e.target.checked)}
+              />
+            </label>
+            <label className="control small">
+              <span>{t.controls.flipBoth}</span>
+              <input
+                type="checkbox"
+                checked={flipBoth}
+                onChange={(e) => setFlipBoth(e.target.checked)}
+              />
+            </label>
+            </div>
           </div>
         </div>
       </div>
-    </div>
+    </I18nContext>
   )
 }
 
-export default App
+// Each profile is a fresh mount of the app, so a switch swaps every setting at once
+function ProfileRoot() {
+  const [profiles, setProfiles] = useState(() => loadProfiles(MESSAGES[resolveLocale('auto')].profiles.defaultName))
+  const changeProfiles = useCallback((next: ProfileList) => {
+    saveProfiles(next)
+    setProfiles(next)
+  }, [])
+  return (
+    <ProfileContext value={profiles.active}>
+      <App key={profiles.active} profiles={profiles} onProfilesChange={changeProfiles} />
+    </ProfileContext>
+  )
+}
+
+export default ProfileRoot
 
 type FretboardProps = {
   stringCount: StringCount
   frets: number
-  onHit: (hit: Target) => void
+  onHit: (hit: Target, position?: number) => void // position: fretless, in frets from the nut
   theme: BoardTheme
   inlayStyle: InlayStyle
   sideDots?: boolean
   binding?: boolean
   flipBoth?: boolean
+  heatmap?: Map<string, number> // cellKey -> 0..1
+  region?: DrillRegion // cells outside are dimmed and ignore hits
+  markers?: FretMarker[]
+  cursor?: Target | null // keyboard / gamepad cursor, drawn like the hover
+  cellLabel?: (t: Target) => string // accessible cell name
+  fretless?: boolean
+  fretLines?: FretLines // fretless: where the frets would be
+  scales?: ScaleLengths // fanned frets when the bass and treble sides differ
 }
 
-function Fretboard({ stringCount, frets, onHit, theme, inlayStyle, sideDots, binding, flipBoth }: FretboardProps) {
+const SINGLE_SCALE: ScaleLengths = { bass: 34, treble: 34, perpendicular: 0 }
+
+// Note marker drawn in a cell
+// shown: always visible; hidden: not drawn until answered; revealed: answered, drawn with a pop-in
+type FretMarker = Target & {
+  label?: string
+  color?: string
+  state?: 'shown' | 'hidden' | 'revealed'
+}
+
+const ROOT_COLOR = '#ffc400'
+const MARKER_COLOR = '#3d8bfd'
+const REVEAL_COLOR = '#2fbf71'
+
+// Flat, high-contrast colours replacing the wood, metal and string textures
+type ContrastPalette = { board: string; fret: string; string: string; inlay: string; focus: string }
+const CONTRAST_PALETTES: Partial<Record<BoardTheme, ContrastPalette>> = {
+  contrastDark: { board: '#000000', fret: '#ffffff', string: '#ffffff', inlay: '#ffd600', focus: '#ffd600' },
+  contrastLight: { board: '#ffffff', fret: '#000000', string: '#000000', inlay: '#0047b3', focus: '#c40000' },
+}
+
+// green (0) -> yellow -> red (1)
+function heatColor(v: number) {
+  const hue = Math.round(120 * (1 - Math.min(1, Math.max(0, v))))
+  return `hsl(${hue}, 85%, 50%)`
+}
+
+function Fretboard({ stringCount, frets, onHit, theme, inlayStyle, sideDots, binding, flipBoth, heatmap, region, markers, cursor, cellLabel, fretless, fretLines, scales = SINGLE_SCALE }: FretboardProps) {
+  const boardLabel = useI18n().t.board
+  const contrast = CONTRAST_PALETTES[theme]
+  const cellIdPrefix = useId()
+  const cellId = (t: Target) => `${cellIdPrefix}-${t.stringIndex}-${t.fret}`
   // SVG geometry
   const width = 1600
   const heightPerString = 44
@@ -343,7 +2015,6 @@ function Fretboard({ stringCount, frets, onHit, theme, inlayStyle, sideDots, bin
   const totalHeight = bindingThickness * 2 + boardHeight + sideRailHeight
   const boardTopY = bindingThickness
   const boardBottomY = boardTopY + boardHeight
-  const scaleLength = 1000 // px, relative scale for fret spacing
   const openPad = 18 // extra clickable pad right of nut for open strings (larger for touch)
   const FRET_WIDTH = 5
   // Theme-tinted side rail and nut side color
@@ -377,19 +2048,9 @@ function Fretboard({ stringCount, frets, onHit, theme, inlayStyle, sideDots, bin
   }, [theme])
   const nutSideFill = '#d8d1c2'
 
-  // Fret positions from nut (x)
-  const fretXs = useMemo(() => {
-    const xs: number[] = [0]
-    for (let n = 1; n <= frets; n += 1) {
-      const d = scaleLength - scaleLength / Math.pow(2, n / 12)
-      xs.push(d)
-    }
-    // Normalize to fit width minus margin on right
-    const full = xs[xs.length - 1]
-    const marginRight = 30
-    const scale = (width - marginRight - nutWidth) / full
-    return xs.map((x) => nutWidth + x * scale)
-  }, [frets])
+  // Fret positions from the nut, fitted to the width minus a margin on the right
+  const geometry = useMemo(() => fanGeometry(scales, frets, nutWidth, width - 30), [scales, frets])
+  const fretNumbers = useMemo(() => Array.from({ length: frets }, (_, i) => i + 1), [frets])
 
   // String centers (bottom = lowest pitch)
   const stringYs = useMemo(() => {
@@ -403,6 +2064,23 @@ function Fretboard({ stringCount, frets, onHit, theme, inlayStyle, sideDots, bin
     return ys
   }, [boardTopY, boardHeight, paddingY, stringCount])
 
+  // Board x of a (fractional) fret position at height y; frets slant when the scales fan out
+  const sideAt = (y: number) => (stringYs[0] - y) / (stringYs[0] - stringYs[stringCount - 1])
+  const fretX = (position: number, y: number) => geometry.x(position, sideAt(y))
+  // Strip along fret n across the whole board, offset from the fret line by dx0..dx1
+  const bandAlong = (n: number, dx0: number, dx1: number): Point[] => {
+    const top = fretX(n, boardTopY)
+    const bottom = fretX(n, boardBottomY)
+    return [
+      { x: top + dx0, y: boardTopY },
+      { x: top + dx1, y: boardTopY },
+      { x: bottom + dx1, y: boardBottomY },
+      { x: bottom + dx0, y: boardBottomY },
+    ]
+  }
+  // Inlay centre for fret n: mid-cell, or on the line on a fretless board
+  const inlayX = (n: number, y: number) => (fretless ? fretX(n, y) : (fretX(n - 1, y) + fretX(n, y)) / 2)
+
   // Inlay positions up to current fret count
   const inlayFrets = useMemo(() => {
     const base = [3, 5, 7, 9, 12, 15, 17, 19]
@@ -411,32 +2089,57 @@ function Fretboard({ stringCount, frets, onHit, theme, inlayStyle, sideDots, bin
     return base.filter((n) => n <= frets)
   }, [frets])
 
-  // Hit test utility: from pointer to stringIndex/fret
-  const pickHit = (sp: DOMPoint) => {
-    // nearest string
-    let stringIndex = 0
-    let minDy = Infinity
-    stringYs.forEach((y, i) => {
-      const dy = Math.abs(sp.y - y)
-      if (dy < minDy) { minDy = dy; stringIndex = i }
-    })
-    // open string zone with grace: extend slightly into first-fret area
-    const firstFretX = fretXs[1] ?? (nutWidth + 60)
-    const openGrace = Math.min(24, (firstFretX - nutWidth) * 0.25)
-    if (sp.x <= nutWidth + openPad + openGrace) {
-      return { stringIndex, fret: 0 }
-    }
-    // fret region n between x_{n-1} and x_n
-    let fret = -1
-    const pad = Math.max(3, Math.ceil(FRET_WIDTH / 2) + 1)
-    for (let n = 1; n <= frets; n += 1) {
-      let x0 = fretXs[n - 1]
-      let x1 = fretXs[n]
-      if (x1 - x0 > pad * 2) { x0 += pad; x1 -= pad }
-      if (sp.x >= x0 && sp.x < x1) { fret = n; break }
-    }
-    if (fret === -1) return null
-    return { stringIndex, fret }
+  // open string zone with grace: extend slightly into first-fret area
+  const openRightAt = (y: number) => {
+    const nutX = fretX(0, y)
+    return nutX + openPad + Math.min(24, (fretX(1, y) - nutX) * 0.25)
+  }
+  const pad = Math.max(3, Math.ceil(FRET_WIDTH / 2) + 1)
+  // Left and right edge of a cell at height y
+  const cellEdges = (fret: number, y: number) => {
+    const openRight = fretless ? Math.max(openRightAt(y), fretX(0.5, y)) : openRightAt(y)
+    if (fret === 0) return { x0: 0, x1: openRight }
+    let x0 = fretless ? fretX(fret - 0.5, y) : fretX(fret - 1, y)
+    let x1 = fretless ? fretX(fret + 0.5, y) : fretX(fret, y)
+    // keep clear of the metal frets
+    if (!fretless && x1 - x0 > pad * 2) { x0 += pad; x1 -= pad }
+    // avoid overlap with expanded open region on 1st fret
+    if (fret === 1 && openRight > x0) x0 = Math.min(x1 - 2, openRight)
+    return { x0, x1: Math.max(x0 + 2, x1) }
+  }
+  // Cell outline between two heights; its sides follow the frets
+  const cellPolygon = (fret: number, top: number, bottom: number): Point[] => {
+    const a = cellEdges(fret, top)
+    const b = cellEdges(fret, bottom)
+    return [{ x: a.x0, y: top }, { x: a.x1, y: top }, { x: b.x1, y: bottom }, { x: b.x0, y: bottom }]
+  }
+  // Drawn cell: a band around the string
+  const cellShape = (t: Target) => {
+    const h = heightPerString * 0.9
+    const y = stringYs[t.stringIndex]
+    return cellPolygon(t.fret, y - h / 2, y + h / 2)
+  }
+  // Hit cell: the string's share of the board, halfway to each neighbour
+  const hitPolygon = (t: Target) => {
+    const y = stringYs[t.stringIndex]
+    const top = t.stringIndex === stringCount - 1 ? 0 : (y + stringYs[t.stringIndex + 1]) / 2
+    const bottom = t.stringIndex === 0 ? totalHeight : (y + stringYs[t.stringIndex - 1]) / 2
+    return cellPolygon(t.fret, top, bottom)
+  }
+
+  // Hit test utility: from pointer to stringIndex/fret, plus the exact position when fretless
+  const pickHit = (sp: DOMPoint): (Target & { position?: number }) | null => {
+    for (let stringIndex = 0; stringIndex < stringCount; stringIndex += 1) {
+      for (let fret = 0; fret <= frets; fret += 1) {
+        if (!pointInPolygon(sp, hitPolygon({ stringIndex, fret }))) continue
+        const y = stringYs[stringIndex]
+        if (!fretless || (fret === 0 && sp.x <= openRightAt(y))) return { stringIndex, fret }
+        // the finger stops the string where it lands; the nearest fret names the note
+        const position = Math.max(0, geometry.position(sp.x, sideAt(y)))
+        return { stringIndex, fret: Math.min(frets, Math.round(position)), position }
+      }
+    }
+    return null
   }
 
   // Hover position highlight (follows mouse, shows where click will register)
@@ -459,9 +2162,10 @@ function Fretboard({ stringCount, frets, onHit, theme, inlayStyle, sideDots, bin
     }
     if (flipBoth) sp = new DOMPoint(width - sp.x, totalHeight - sp.y)
     const hit = pickHit(sp)
-    if (!hit) return
-    setHover(hit)
-    onHit(hit)
+    if (!hit || (region && !inRegion(region, hit))) return
+    const { position, ...cell } = hit
+    setHover(cell)
+    onHit(cell, position)
   }
 
   const handlePointerMove = (evt: React.PointerEvent<SVGSVGElement>) => {
@@ -478,13 +2182,11 @@ function Fretboard({ stringCount, frets, onHit, theme, inlayStyle, sideDots, bin
     }
     if (flipBoth) sp = new DOMPoint(width - sp.x, totalHeight - sp.y)
     const hit = pickHit(sp)
-    setHover(hit)
+    setHover(hit && (!region || inRegion(region, hit)) ? { stringIndex: hit.stringIndex, fret: hit.fret } : null)
   }
 
   const handlePointerLeave = () => setHover(null)
 
-  // removed highlight position (no hint rendering)
-
   return (
       <svg
         className="fretboard"
@@ -494,8 +2196,12 @@ function Fretboard({ stringCount, frets, onHit, theme, inlayStyle, sideDots, bin
         onPointerDown={handlePointerDown}
         onPointerMove={handlePointerMove}
         onPointerLeave={handlePointerLeave}
-        role="img"
-        aria-label="베이스 지판"
+        role="grid"
+        aria-label={boardLabel}
+        aria-rowcount={stringCount}
+        aria-colcount={frets + 1}
+        aria-activedescendant={cursor ? cellId(cursor) : undefined}
+        tabIndex={0}
       >
         {/* wood background */}
         <defs>
@@ -552,7 +2258,7 @@ function Fretboard({ stringCount, frets, onHit, theme, inlayStyle, sideDots, bin
 
         <g transform={flipBoth ? `translate(${width},${totalHeight}) scale(-1,-1)` : undefined}>
           {/* board (no rounding) */}
-        <rect x={0} y={boardTopY} width={width} height={boardHeight} fill="url(#wood)" />
+        <rect x={0} y={boardTopY} width={width} height={boardHeight} fill={contrast ? contrast.board : 'url(#wood)'} />
         {binding && (
           <>
             <rect x={0} y={0} width={width} height={bindingThickness} fill="#e8e1cc" opacity={0.95} />
@@ -560,21 +2266,29 @@ function Fretboard({ stringCount, frets, onHit, theme, inlayStyle, sideDots, bin
           </>
         )}
 
-          {/* nut */}
-          <rect x={0} y={boardTopY} width={nutWidth} height={boardHeight} fill="#e5e2d8" />
+          {/* nut (slanted with the frets when the perpendicular fret is not the nut) */}
+          <polygon points={polygonPoints(bandAlong(0, -nutWidth, 0))} fill="#e5e2d8" />
           {/* open helper zone visual (subtle) */}
-          <rect x={nutWidth} y={boardTopY} width={openPad} height={boardHeight} fill="#ffffff" opacity={0.04} />
-
-          {/* frets */}
-          {fretXs.slice(1).map((x, i) => (
-            <rect
-              key={`fret-${i + 1}`}
-              x={x - FRET_WIDTH / 2}
-              y={boardTopY}
-              width={FRET_WIDTH}
-              height={boardHeight}
-              fill="url(#metal)"
-              stroke="#6a6a6a"
+          <polygon points={polygonPoints(bandAlong(0, 0, openPad))} fill="#ffffff" opacity={0.04} />
+
+          {/* frets; a fretless board shows at most thin lines where they would be */}
+          {fretless ? fretLines === 'lined' && fretNumbers.map((n) => (
+            <line
+              key={`fretline-${n}`}
+              x1={fretX(n, boardTopY)}
+              y1={boardTopY}
+              x2={fretX(n, boardBottomY)}
+              y2={boardBottomY}
+              stroke={contrast ? contrast.fret : theme === 'maple' ? '#3a2a1a' : '#e8e1cc'}
+              strokeWidth={1.5}
+              opacity={0.7}
+            />
+          )) : fretNumbers.map((n) => (
+            <polygon
+              key={`fret-${n}`}
+              points={polygonPoints(bandAlong(n, -FRET_WIDTH / 2, FRET_WIDTH / 2))}
+              fill={contrast ? contrast.fret : 'url(#metal)'}
+              stroke={contrast ? contrast.fret : '#6a6a6a'}
               strokeWidth={0.6}
               opacity={0.98}
             />
@@ -582,14 +2296,11 @@ function Fretboard({ stringCount, frets, onHit, theme, inlayStyle, sideDots, bin
 
           {/* inlays */}
           {inlayStyle !== 'none' && inlayFrets.map((n) => {
-          const xL = fretXs[n - 1]
-          const xR = fretXs[n]
-          const xMid = (xL + xR) / 2
           const isDouble = n === 12 || (n === 24 && frets >= 24)
           const bottomY = Math.max(...stringYs)
           const topY = Math.min(...stringYs)
           const centerY = (topY + bottomY) / 2
-          const inlayFill = theme === 'maple' ? '#333' : '#dcd7c9'
+          const inlayFill = contrast ? contrast.inlay : theme === 'maple' ? '#333' : '#dcd7c9'
           if (inlayStyle === 'dot') {
             const dotR = 8
             const edgeMargin = Math.max(dotR + 3, paddingY * 0.6)
@@ -599,11 +2310,11 @@ function Fretboard({ stringCount, frets, onHit, theme, inlayStyle, sideDots, bin
               <g key={`inlay-${n}`}>
                 {isDouble ? (
                   <>
-                    <circle cx={xMid} cy={yTopEdge} r={dotR} fill={inlayFill} opacity={0.95} />
-                    <circle cx={xMid} cy={yBottomEdge} r={dotR} fill={inlayFill} opacity={0.95} />
+                    <circle cx={inlayX(n, yTopEdge)} cy={yTopEdge} r={dotR} fill={inlayFill} opacity={0.95} />
+                    <circle cx={inlayX(n, yBottomEdge)} cy={yBottomEdge} r={dotR} fill={inlayFill} opacity={0.95} />
                   </>
                 ) : (
-                  <circle cx={xMid} cy={centerY} r={dotR} fill={inlayFill} opacity={0.9} />
+                  <circle cx={inlayX(n, centerY)} cy={centerY} r={dotR} fill={inlayFill} opacity={0.9} />
                 )}
               </g>
             )
@@ -612,15 +2323,17 @@ function Fretboard({ stringCount, frets, onHit, theme, inlayStyle, sideDots, bin
           const vSpan = bottomY - topY
           const vPad = Math.max(4, vSpan * 0.06) // smaller pad => taller block
           const blockH = Math.max(22, vSpan - vPad * 2)
-          const y = centerY - blockH / 2
-          const hSpan = xR - xL
+          // sides follow the frets; the width comes from the spacing at the middle
+          const hSpan = fretX(n, centerY) - fretX(n - 1, centerY)
           const hPad = Math.max(4, hSpan * 0.16) // slightly larger pad => slightly narrower block
           const blockW = Math.max(10, hSpan - hPad * 2)
-          const x = xL + hPad
-          const ry = 4
+          const edge = (y: number) => inlayX(n, y) - blockW / 2
+          const y0 = centerY - blockH / 2
+          const y1 = centerY + blockH / 2
+          const block = [{ x: edge(y0), y: y0 }, { x: edge(y0) + blockW, y: y0 }, { x: edge(y1) + blockW, y: y1 }, { x: edge(y1), y: y1 }]
           return (
             <g key={`inlay-${n}`}>
-              <rect x={x} y={y} width={blockW} height={blockH} rx={ry} ry={ry} fill="url(#pearl)" opacity={0.95} stroke="rgba(255,255,255,0.35)" strokeWidth={0.6} />
+              <polygon points={polygonPoints(block)} strokeLinejoin="round" fill={contrast ? contrast.inlay : 'url(#pearl)'} opacity={0.95} stroke="rgba(255,255,255,0.35)" strokeWidth={0.6} />
             </g>
           )
           })}
@@ -630,9 +2343,7 @@ function Fretboard({ stringCount, frets, onHit, theme, inlayStyle, sideDots, bin
             <>
               {binding ? (
                 inlayFrets.map((n) => {
-                  const xL = fretXs[n - 1]
-                  const xR = fretXs[n]
-                  const xMid = (xL + xR) / 2
+                  const xMid = inlayX(n, boardBottomY)
                   const yDot = boardBottomY + (bindingThickness / 2)
                   const isDouble = n === 12 || (n === 24 && frets >= 24)
                   const r = 3
@@ -656,9 +2367,7 @@ function Fretboard({ stringCount, frets, onHit, theme, inlayStyle, sideDots, bin
                   {/* nut side extension */}
                   <rect x={0} y={boardBottomY} width={nutWidth} height={sideRailHeight} fill={nutSideFill} opacity={0.98} />
                   {inlayFrets.map((n) => {
-                    const xL = fretXs[n - 1]
-                    const xR = fretXs[n]
-                    const xMid = (xL + xR) / 2
+                    const xMid = inlayX(n, boardBottomY)
                     const yDot = boardBottomY + (sideRailHeight / 2)
                     const isDouble = n === 12 || (n === 24 && frets >= 24)
                     const r = 3
@@ -691,11 +2400,11 @@ function Fretboard({ stringCount, frets, onHit, theme, inlayStyle, sideDots, bin
                 y={y - gauge / 2}
                 width={width}
                 height={gauge}
-                fill="url(#rw)"
+                fill={contrast ? contrast.string : 'url(#rw)'}
                 opacity={0.95}
-                style={{ filter: 'drop-shadow(0px 1px 0px rgba(0,0,0,0.35))' }}
+                style={contrast ? undefined : { filter: 'drop-shadow(0px 1px 0px rgba(0,0,0,0.35))' }}
               />
-              <line
+              {!contrast && <line
                 x1={0}
                 y1={y}
                 x2={width}
@@ -703,51 +2412,118 @@ function Fretboard({ stringCount, frets, onHit, theme, inlayStyle, sideDots, bin
                 stroke={highlight}
                 strokeWidth={Math.max(1, gauge - 3)}
                 opacity={0.5}
-              />
+              />}
             </g>
           )
           })}
 
-        {/* hover indicator only; no target hint */}
-
-        {/* hover highlight: full cell area for the hovered string × fret */}
-          {hover && (
-          (() => {
-            const yCenter = stringYs[hover.stringIndex]
-            const h = heightPerString * 0.9
-            const y = yCenter - h / 2
-          if (hover.fret === 0) {
-              // open: entire open click zone
-              const x0 = 0
-              const firstFretX = fretXs[1] ?? (nutWidth + 60)
-              const openGrace = Math.min(24, (firstFretX - nutWidth) * 0.25)
-              const x1 = nutWidth + openPad + openGrace
-              const w = x1 - x0
-              return <rect x={x0} y={y} width={w} height={h} rx={6} ry={6} fill="rgba(0,0,0,0.20)" />
-            } else {
-              let x0 = fretXs[hover.fret - 1]
-              let x1 = fretXs[hover.fret]
-              // mirror hit-test padding to avoid overlapping metal frets
-              const pad = Math.max(3, Math.ceil(FRET_WIDTH / 2) + 1)
-              if (x1 - x0 > pad * 2) { x0 += pad; x1 -= pad }
-              // avoid overlap with expanded open region on 1st fret
-              if (hover.fret === 1) {
-                const firstFretX = fretXs[1] ?? (nutWidth + 60)
-                const openGrace = Math.min(24, (firstFretX - nutWidth) * 0.25)
-                const openRight = nutWidth + openPad + openGrace
-                if (openRight > x0) x0 = Math.min(x1 - 2, openRight)
-              }
-              const w = Math.max(2, x1 - x0)
-              return <rect x={x0} y={y} width={w} height={h} rx={6} ry={6} fill="rgba(0,0,0,0.20)" />
-            }
-          })()
-          )}
+        {/* dim cells outside the practice area */}
+          {region && stringYs.map((_, si) => Array.from({ length: frets + 1 }, (_, f) => {
+            const t = { stringIndex: si, fret: f }
+            if (inRegion(region, t)) return null
+            return (
+              <polygon
+                key={`dim-${si}-${f}`}
+                className="dim-cell"
+                points={polygonPoints(cellShape(t))}
+                fill="rgba(0,0,0,0.55)"
+              />
+            )
+          }))}
+
+        {/* heatmap: tint each string × fret cell by intensity */}
+          {heatmap && Array.from(heatmap).map(([key, v]) => {
+            const [si, f] = key.split(':').map(Number)
+            if (si >= stringCount || f > frets) return null
+            return (
+              <polygon
+                key={`heat-${key}`}
+                className="heat-cell"
+                points={polygonPoints(cellShape({ stringIndex: si, fret: f }))}
+                strokeLinejoin="round"
+                fill={heatColor(v)}
+                opacity={0.25 + v * 0.45}
+              />
+            )
+          })}
+
+        {/* note markers: labelled circles in the middle of their cells */}
+          {markers && markers.map((m) => {
+            if (m.state === 'hidden' || m.stringIndex >= stringCount || m.fret > frets) return null
+            const cy = stringYs[m.stringIndex]
+            const { x0, x1 } = cellEdges(m.fret, cy)
+            const cx = (x0 + x1) / 2
+            return (
+              <g key={`marker-${m.stringIndex}-${m.fret}`} className={`fret-marker ${m.state ?? 'shown'}`}>
+                <circle cx={cx} cy={cy} r={Math.min(16, (x1 - x0) / 2 - 2)} fill={m.color ?? MARKER_COLOR} stroke="#fff" strokeWidth={2} />
+                {m.label && (
+                  <text
+                    x={cx}
+                    y={cy}
+                    textAnchor="middle"
+                    dominantBaseline="central"
+                    fontSize={14}
+                    fontWeight={700}
+                    fill="#111"
+                    transform={flipBoth ? `rotate(180 ${cx} ${cy})` : undefined}
+                  >
+                    {m.label}
+                  </text>
+                )}
+              </g>
+            )
+          })}
+
+        {/* hover highlight: full cell area for the hovered string × fret (or the keyboard cursor) */}
+          {(hover ?? cursor) && (() => {
+            return (
+              <polygon
+                points={polygonPoints(cellShape((hover ?? cursor)!))}
+                strokeLinejoin="round"
+                fill="rgba(0,0,0,0.20)"
+                stroke={contrast?.focus}
+                strokeWidth={contrast ? 3 : undefined}
+              />
+            )
+          })()}
+
+        {/* accessible grid: one row per string (highest first), one cell per fret */}
+          {[...stringYs.keys()].reverse().map((si) => (
+            <g key={`row-${si}`} role="row">
+              {Array.from({ length: frets + 1 }, (_, f) => {
+                const t = { stringIndex: si, fret: f }
+                return (
+                  <polygon
+                    key={f}
+                    id={cellId(t)}
+                    role="gridcell"
+                    aria-label={cellLabel?.(t)}
+                    aria-selected={cursor?.stringIndex === si && cursor.fret === f}
+                    aria-disabled={region && !inRegion(region, t) ? true : undefined}
+                    points={polygonPoints(cellShape(t))}
+                    fill="transparent"
+                    pointerEvents="none"
+                  />
+                )
+              })}
+            </g>
+          ))}
         </g>
     </svg>
   )
 }
 
-function StaffNote({ midi }: { midi: number }) {
+type StaffNoteProps = {
+  midi: number
+  spelling: SpellingPreference
+  keyFifths: number
+  notation: ClefNotation | TabNotation
+  position?: Target | null // tab views: the cell being asked
+  stringCount: number
+}
+
+function StaffNote({ midi, spelling, keyFifths, notation, position, stringCount }: StaffNoteProps) {
+  const { t, noteNames } = useI18n()
   const ref = useRef<HTMLDivElement | null>(null)
   useEffect(() => {
     if (!ref.current) return
@@ -763,25 +2539,47 @@ function StaffNote({ midi }: { midi: number }) {
     ;(context as any).setFillStyle?.('#ffffff')
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     ;(context as any).setStrokeStyle?.('#ffffff')
-    // Always-rendered vertical position (fixed), keep consistent across problems
-    const writtenMidi = midi + 12 // 8vb notation (bass clef standard)
-    const { key, acc, oct } = midiToVexKey(writtenMidi)
     const staveY = 50
-    const stave = new Stave(16, staveY, width - 32)
-    stave.addClef('bass')
-    stave.setContext(context).draw()
-    // Stem direction rule: from E3 (written) and above, force stems downward
-    // writtenMidi already includes +12 (8vb); E3 (written) MIDI = 52
-    const stemDir = (writtenMidi >= 52) ? -1 : 1
-    const note = new StaveNote({ clef: 'bass', keys: [`${key}/${oct}`], duration: 'q' } as any)
-    // apply stem direction across VexFlow versions
-    ;(note as any).setStemDirection?.(stemDir)
-    if (!(note as any).setStemDirection) { (note as any).stem_direction = stemDir }
-    if (acc) note.addModifier(new Accidental(acc), 0)
-    const voice = new Voice({ numBeats: 1, beatValue: 4 })
-    voice.addTickables([note])
-    new Formatter().joinVoices([voice]).format([voice], Math.max(120, width - 80))
-    voice.draw(context, stave)
+    if (notation === 'tabString' || notation === 'tabFret') {
+      // TAB: one line per string, highest string on top
+      const tab = new TabStave(16, staveY, width - 32, { numLines: stringCount })
+      tab.addClef('tab')
+      tab.setContext(context).draw()
+      if (position && notation === 'tabString') {
+        // the string is given, the fret is the question
+        const note = new TabNote({ positions: [{ str: stringCount - position.stringIndex, fret: '?' }], duration: 'q' })
+        const voice = new Voice({ numBeats: 1, beatValue: 4 })
+        voice.addTickables([note])
+        new Formatter().joinVoices([voice]).format([voice], Math.max(120, width - 80))
+        voice.draw(context, tab)
+      } else if (position) {
+        // the fret is given above the TAB, the string is the question
+        context.setFont('Arial', 28, 'bold')
+        context.fillText(String(position.fret), width / 2 + 10, staveY + 10)
+      }
+    } else {
+      const setup = CLEF_SETUPS[notation]
+      // Always-rendered vertical position (fixed), keep consistent across problems
+      const writtenMidi = midi + setup.transpose
+      const written = spellMidi(writtenMidi, spelling, keyFifths)
+      const [acc] = staffAccidentals([written], keyFifths)
+      const stave = new Stave(16, staveY, width - 32)
+      stave.addClef(setup.clef)
+      if (keyFifths !== 0) stave.addKeySignature(keySignature(keyFifths).name)
+      if (setup.label) stave.setStaveText(setup.label, StaveModifierPosition.BELOW)
+      stave.setContext(context).draw()
+      // Stem direction rule: from the clef's threshold line (written) and above, force stems downward
+      const stemDir = staffStep(written) >= setup.stemDownFrom ? -1 : 1
+      const note = new StaveNote({ clef: setup.clef, keys: [toVexKey(written)], duration: 'q' } as any)
+      // apply stem direction across VexFlow versions
+      ;(note as any).setStemDirection?.(stemDir)
+      if (!(note as any).setStemDirection) { (note as any).stem_direction = stemDir }
+      if (acc) note.addModifier(new Accidental(acc), 0)
+      const voice = new Voice({ numBeats: 1, beatValue: 4 })
+      voice.addTickables([note])
+      new Formatter().joinVoices([voice]).format([voice], Math.max(120, width - 80))
+      voice.draw(context, stave)
+    }
 
     // Allow CSS to control final rendered size: remove fixed w/h attributes
     const svgEl = ref.current.querySelector('svg') as SVGSVGElement | null
@@ -793,28 +2591,11 @@ function StaffNote({ midi }: { midi: number }) {
       svgEl.style.width = 'auto'
       svgEl.style.height = 'auto'
     }
-  }, [midi])
-  return <div className="staff-problem" ref={ref} aria-label={`midi-${midi}`} />
-}
-
-function midiToVexKey(midi: number): { key: string; oct: number; acc: '' | '#' | 'b' } {
-  const pc = midi % 12
-  const octave = Math.floor(midi / 12) - 1
-  // sharps mapping by default
-  const map: Record<number, { key: string; acc: '' | '#' | 'b' }> = {
-    0: { key: 'c', acc: '' },
-    1: { key: 'c', acc: '#' },
-    2: { key: 'd', acc: '' },
-    3: { key: 'd', acc: '#' },
-    4: { key: 'e', acc: '' },
-    5: { key: 'f', acc: '' },
-    6: { key: 'f', acc: '#' },
-    7: { key: 'g', acc: '' },
-    8: { key: 'g', acc: '#' },
-    9: { key: 'a', acc: '' },
-    10: { key: 'a', acc: '#' },
-    11: { key: 'b', acc: '' },
-  }
-  const { key, acc } = map[pc]
-  return { key, acc, oct: octave }
+  }, [midi, spelling, keyFifths, notation, position, stringCount])
+  // what the drawing asks, for screen readers
+  const noteName = midiToNameOctave(midi, spelling, keyFifths, noteNames)
+  let label = CLEF_SETUPS[notation as ClefNotation]?.clef === 'treble' ? t.staff.treble(noteName) : t.staff.bass(noteName)
+  if (notation === 'tabString') label = position ? t.staff.tabString(stringCount - position.stringIndex) : 'TAB'
+  if (notation === 'tabFret') label = position ? t.staff.tabFret(position.fret) : 'TAB'
+  return <div className="staff-problem" ref={ref} role="img" aria-label={label} />
 }
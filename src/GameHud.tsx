@@ -0,0 +1,39 @@
+import { GAME_RULES, elapsedMs, remainingMs, type GameRound } from './game'
+import { useI18n } from './i18n'
+
+type GameHudProps = {
+  round: GameRound
+  now: number
+}
+
+function formatSeconds(ms: number) {
+  return `${(ms / 1000).toFixed(1)}s`
+}
+
+// Countdown, progress or lives next to the problem banner
+export default function GameHud({ round, now }: GameHudProps) {
+  const { t } = useI18n()
+  const rules = GAME_RULES[round.mode]
+  const name = t.gameModes[round.mode]
+  const left = remainingMs(round, now)
+  return (
+    <div className="game-hud" aria-label={name}>
+      <span className="game-hud-mode">{name}</span>
+      {left != null && (
+        <span className={`game-hud-clock ${left < 10_000 ? 'low' : ''}`}>{formatSeconds(left)}</span>
+      )}
+      {rules.targetCount != null && (
+        <>
+          <span className="game-hud-clock">{formatSeconds(elapsedMs(round, now))}</span>
+          <span>{round.correct}/{rules.targetCount}</span>
+        </>
+      )}
+      {rules.lives != null && round.lives != null && (
+        <span className="game-hud-lives" aria-label={t.game.lives(round.lives)}>
+          {Array.from({ length: rules.lives }, (_, i) => (i < round.lives! ? '♥' : '♡')).join('')}
+        </span>
+      )}
+      {rules.targetCount == null && <span>{t.game.correctCount(round.correct)}</span>}
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+import { summarizeIntonation } from './fretless'
+import { useI18n } from './i18n'
+
+type IntonationGraphProps = {
+  cents: number[] // one per correctly named note, in order played
+  tolerance: number // ± cents counted as in tune
+}
+
+const WIDTH = 320
+const HEIGHT = 120
+const PAD = 8
+const RANGE = 50 // cents shown above and below the target; further notes sit on the edge
+
+function yOf(cents: number) {
+  const c = Math.max(-RANGE, Math.min(RANGE, cents))
+  return HEIGHT / 2 - (c / RANGE) * (HEIGHT / 2 - PAD)
+}
+
+// Cents off per note around the in-tune band, with the round's averages
+export default function IntonationGraph({ cents, tolerance }: IntonationGraphProps) {
+  const { t } = useI18n()
+  const summary = summarizeIntonation(cents, tolerance)
+  if (!summary) return <p className="stats-empty">{t.stats.empty}</p>
+  const step = cents.length > 1 ? (WIDTH - PAD * 2) / (cents.length - 1) : 0
+  const xOf = (i: number) => (cents.length > 1 ? PAD + i * step : WIDTH / 2)
+  const bandTop = yOf(tolerance)
+  return (
+    <figure className="intonation-graph">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label={t.intonation.title}>
+        <rect x={0} y={bandTop} width={WIDTH} height={yOf(-tolerance) - bandTop} className="intonation-band" />
+        <line x1={0} y1={HEIGHT / 2} x2={WIDTH} y2={HEIGHT / 2} className="intonation-zero" />
+        <text x={4} y={PAD + 4} className="intonation-axis">{t.intonation.sharp}</text>
+        <text x={4} y={HEIGHT - 4} className="intonation-axis">{t.intonation.flat}</text>
+        {cents.length > 1 && (
+          <polyline className="intonation-line" points={cents.map((c, i) => `${xOf(i)},${yOf(c)}`).join(' ')} />
+        )}
+        {cents.map((c, i) => (
+          <circle
+            key={i}
+            cx={xOf(i)}
+            cy={yOf(c)}
+            r={3.5}
+            className={Math.abs(c) <= tolerance ? 'intonation-point in-tune' : 'intonation-point off'}
+          >
+            <title>{t.intonation.cents(c)}</title>
+          </circle>
+        ))}
+      </svg>
+      <figcaption>
+        {t.intonation.summary(Math.round(summary.inTune * 100), summary.meanAbsCents, summary.meanCents)}
+      </figcaption>
+    </figure>
+  )
+}
@@ -0,0 +1,44 @@
+import { useI18n } from './i18n'
+import type { Timing } from './metronome'
+
+export type GrooveResult = { timing: Timing; offsetMs: number; id: number }
+export type GrooveCounts = Record<Timing, number>
+
+type MetronomeHudProps = {
+  beats: number
+  current: number | null // beat in bar, 0-based
+  answerBeat: number | null // beat in bar the answer is due on (groove mode)
+  bpm: number
+  result: GrooveResult | null
+  counts: GrooveCounts | null
+}
+
+const TIMINGS: Timing[] = ['early', 'onTime', 'late']
+
+// Beat lights, tempo and the last timing judgement
+export default function MetronomeHud({ beats, current, answerBeat, bpm, result, counts }: MetronomeHudProps) {
+  const { t } = useI18n()
+  return (
+    <div className="metronome-hud" aria-label={`${bpm} BPM`}>
+      <span className="metronome-bpm">♩ = {bpm}</span>
+      <span className="metronome-beats">
+        {Array.from({ length: beats }, (_, i) => (
+          <span
+            key={i}
+            className={`metronome-beat ${i === current ? 'on' : ''} ${i === answerBeat ? 'answer' : ''} ${i === 0 ? 'down' : ''}`}
+          />
+        ))}
+      </span>
+      {result && (
+        <span key={result.id} className={`groove-result ${result.timing}`}>
+          {t.timing[result.timing]} {result.offsetMs > 0 ? '+' : ''}{result.offsetMs}ms
+        </span>
+      )}
+      {counts && (
+        <span className="groove-counts">
+          {TIMINGS.map((k) => `${t.timing[k]} ${counts[k]}`).join(' · ')}
+        </span>
+      )}
+    </div>
+  )
+}
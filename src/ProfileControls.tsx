@@ -0,0 +1,93 @@
+import { useRef, useState } from 'react'
+import { useI18n } from './i18n'
+import {
+  createProfile,
+  deleteProfile,
+  exportProfile,
+  importProfile,
+  renameProfile,
+  type ProfileList,
+} from './profiles'
+
+type ProfileControlsProps = {
+  profiles: ProfileList
+  onChange: (next: ProfileList) => void
+}
+
+function download(fileName: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+// Profile picker, name, and export/import; settings rows at the top of the panel
+export default function ProfileControls({ profiles, onChange }: ProfileControlsProps) {
+  const { t } = useI18n()
+  const fileRef = useRef<HTMLInputElement>(null)
+  const [importFailed, setImportFailed] = useState(false)
+  const active = profiles.profiles.find((p) => p.id === profiles.active) ?? profiles.profiles[0]
+
+  const importFile = async (file: File) => {
+    const next = importProfile(profiles, await file.text())
+    setImportFailed(!next)
+    if (next) onChange(next)
+  }
+
+  return (
+    <>
+      <label className="control small">
+        <span>{t.profiles.title}</span>
+        <select value={active.id} onChange={(e) => onChange({ ...profiles, active: e.target.value })}>
+          {profiles.profiles.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        <button className="control-inline" onClick={() => onChange(createProfile(profiles, t.profiles.numbered(profiles.profiles.length + 1)))}>
+          {t.profiles.create}
+        </button>
+        {profiles.profiles.length > 1 && (
+          <button
+            className="control-inline"
+            onClick={() => {
+              if (window.confirm(t.profiles.confirmRemove(active.name))) onChange(deleteProfile(profiles, active.id))
+            }}
+          >
+            {t.profiles.remove}
+          </button>
+        )}
+      </label>
+      <label className="control small">
+        <span>{t.profiles.name}</span>
+        <input
+          key={`${active.id}:${active.name}`}
+          type="text"
+          defaultValue={active.name}
+          maxLength={40}
+          onBlur={(e) => {
+            if (!e.target.value.trim()) e.target.value = active.name
+            else if (e.target.value !== active.name) onChange(renameProfile(profiles, active.id, e.target.value))
+          }}
+        />
+      </label>
+      <div className="control small">
+        <button className="control-inline" onClick={() => download(`fretboard-${active.name}.json`, exportProfile(active))}>
+          {t.profiles.exportFile}
+        </button>
+        <button className="control-inline" onClick={() => fileRef.current?.click()}>{t.profiles.importFile}</button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          hidden
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            e.target.value = ''
+            if (file) importFile(file).catch(() => setImportFailed(true))
+          }}
+        />
+        {importFailed && <span className="control-error">{t.profiles.importFailed}</span>}
+      </div>
+    </>
+  )
+}
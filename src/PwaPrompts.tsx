@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react'
+import { useI18n } from './i18n'
+import { listenForInstall, registerServiceWorker, type InstallPromptEvent } from './pwa'
+
+const OFFLINE_NOTE_MS = 4000
+
+// Update and install offers, bottom centre; the offline note fades by itself
+export default function PwaPrompts() {
+  const { t } = useI18n()
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null)
+  const [offlineReady, setOfflineReady] = useState(false)
+  const [installEvent, setInstallEvent] = useState<InstallPromptEvent | null>(null)
+
+  useEffect(() => {
+    registerServiceWorker((apply) => setApplyUpdate(() => apply), () => setOfflineReady(true))
+    return listenForInstall(setInstallEvent)
+  }, [])
+
+  useEffect(() => {
+    if (!offlineReady) return
+    const timer = window.setTimeout(() => setOfflineReady(false), OFFLINE_NOTE_MS)
+    return () => window.clearTimeout(timer)
+  }, [offlineReady])
+
+  const install = () => {
+    if (!installEvent) return
+    installEvent.prompt().catch(() => { /* already shown */ })
+    // the event can only prompt once
+    setInstallEvent(null)
+  }
+
+  if (!applyUpdate && !offlineReady && !installEvent) return null
+  return (
+    <div className="pwa-prompts" role="status">
+      {applyUpdate && (
+        <div className="pwa-prompt">
+          <span>{t.pwa.updateReady}</span>
+          <button onClick={applyUpdate}>{t.pwa.update}</button>
+          <button className="secondary" onClick={() => setApplyUpdate(null)}>{t.pwa.later}</button>
+        </div>
+      )}
+      {offlineReady && <div className="pwa-prompt"><span>{t.pwa.offlineReady}</span></div>}
+      {installEvent && (
+        <div className="pwa-prompt">
+          <button onClick={install}>{t.pwa.install}</button>
+          <button className="secondary" onClick={() => setInstallEvent(null)}>{t.pwa.later}</button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+import { IoClose } from 'react-icons/io5'
+import { roundEntry, type GameRound, type LeaderboardEntry } from './game'
+import { useI18n, type Messages } from './i18n'
+import IntonationGraph from './IntonationGraph'
+
+type RoundSummaryProps = {
+  round: GameRound
+  best: LeaderboardEntry[] // personal bests for this configuration, best first
+  rank: number // position of this round in `best`, -1 when not listed
+  intonation?: number[] | null // fretless: cents off per note of the round
+  centsTolerance?: number
+  onRestart: () => void
+  onClose: () => void
+}
+
+function formatScore(t: Messages, mode: GameRound['mode'], e: LeaderboardEntry) {
+  return mode === 'sprint' ? `${(e.score / 1000).toFixed(2)}s` : t.game.notes(e.score)
+}
+
+function formatDate(ts: number) {
+  const d = new Date(ts)
+  return `${d.getMonth() + 1}/${d.getDate()} ${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`
+}
+
+export default function RoundSummary({ round, best, rank, intonation, centsTolerance = 20, onRestart, onClose }: RoundSummaryProps) {
+  const { t } = useI18n()
+  const entry = roundEntry(round)
+  const total = round.correct + round.wrong
+  return (
+    <div className="stats-panel round-summary" role="dialog" aria-label={t.game.result}>
+      <header className="stats-header">
+        <h2>{t.game.resultOf(t.gameModes[round.mode])}</h2>
+        <span className="stats-overall">
+          {t.game.summary(round.correct, round.wrong, total ? Math.round((round.correct / total) * 100) : 0)}
+        </span>
+        <button className="stats-close" aria-label={t.close} onClick={onClose}>
+          <IoClose size={24} />
+        </button>
+      </header>
+      <div className="stats-body">
+        <section className="stats-section">
+          <h3>{t.game.thisRound}</h3>
+          <p className="round-score">
+            {entry ? formatScore(t, round.mode, entry) : t.game.unfinished}
+            {rank === 0 && <span className="round-best">{t.game.newBest}</span>}
+          </p>
+          <button className="round-restart" onClick={onRestart}>{t.game.playAgain}</button>
+        </section>
+        {intonation && (
+          <section className="stats-section">
+            <h3>{t.intonation.title}</h3>
+            <IntonationGraph cents={intonation} tolerance={centsTolerance} />
+          </section>
+        )}
+        <section className="stats-section">
+          <h3>{t.game.personalBests}</h3>
+          {best.length === 0 ? (
+            <p className="stats-empty">{t.stats.empty}</p>
+          ) : (
+            <table className="stats-table">
+              <tbody>
+                {best.map((e, i) => (
+                  <tr key={`${e.ts}-${i}`} className={i === rank ? 'current' : undefined}>
+                    <th scope="row">{i + 1}</th>
+                    <td>{formatScore(t, round.mode, e)}</td>
+                    <td>{e.correct}/{e.correct + e.wrong}</td>
+                    <td>{formatDate(e.ts)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      </div>
+    </div>
+  )
+}
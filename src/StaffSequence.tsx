@@ -0,0 +1,103 @@
+import { useEffect, useRef } from 'react'
+import { Accidental, Barline, Beam, Formatter, Renderer, Stave, StaveModifierPosition, StaveNote, Voice } from 'vexflow/bravura'
+import { useI18n } from './i18n'
+import { keySignature, midiToNameOctave, spellMidi, staffAccidentals, toVexKey, type SpellingPreference } from './notes'
+import { measureCount, type SeqEvent } from './sequence'
+import { CLEF_SETUPS, restKey, type ClefNotation } from './notation'
+
+type StaffSequenceProps = {
+  events: SeqEvent[]
+  cursor: number // index of the note to answer next
+  missed: number[] // indices answered wrong at least once
+  spelling: SpellingPreference
+  keyFifths: number
+  notation: ClefNotation
+}
+
+// Multi-measure phrase in the chosen clef; played, current and missed notes are
+// tagged with classes on their SVG groups for styling
+export default function StaffSequence({ events, cursor, missed, spelling, keyFifths, notation }: StaffSequenceProps) {
+  const { t, noteNames } = useI18n()
+  const ref = useRef<HTMLDivElement | null>(null)
+  useEffect(() => {
+    const el = ref.current
+    if (!el) return
+    el.innerHTML = ''
+    const measures = measureCount(events)
+    const measureWidth = 220
+    const headerWidth = 80 + Math.abs(keyFifths) * 11 // clef, key and time signature
+    const width = 20 + headerWidth + measures * measureWidth
+    const height = 200
+    const renderer = new Renderer(el, Renderer.Backends.SVG)
+    renderer.resize(width, height)
+    const context = renderer.getContext()
+    const setup = CLEF_SETUPS[notation]
+
+    let x = 10
+    for (let m = 0; m < measures; m += 1) {
+      const staveWidth = measureWidth + (m === 0 ? headerWidth : 0)
+      const stave = new Stave(x, 40, staveWidth)
+      if (m === 0) {
+        stave.addClef(setup.clef)
+        if (keyFifths !== 0) stave.addKeySignature(keySignature(keyFifths).name)
+        stave.addTimeSignature('4/4')
+        if (setup.label) stave.setStaveText(setup.label, StaveModifierPosition.BELOW)
+      }
+      if (m === measures - 1) stave.setEndBarType(Barline.type.END)
+      stave.setContext(context).draw()
+
+      const inMeasure = events.map((e, i) => ({ e, i })).filter(({ e }) => e.measure === m)
+      const spelled = inMeasure.map(({ e }) => (e.midi == null ? null : spellMidi(e.midi + setup.transpose, spelling, keyFifths)))
+      const accidentals = staffAccidentals(spelled.filter((n) => n != null), keyFifths)
+      let accIndex = 0
+      const notes = inMeasure.map(({ e, i }, k) => {
+        const written = spelled[k]
+        const note = written
+          ? new StaveNote({ clef: setup.clef, keys: [toVexKey(written)], duration: e.duration, autoStem: true })
+          : new StaveNote({ clef: setup.clef, keys: [restKey(setup)], duration: `${e.duration}r` })
+        if (written) {
+          const acc = accidentals[accIndex]
+          accIndex += 1
+          if (acc) note.addModifier(new Accidental(acc), 0)
+        }
+        note.setAttribute('id', `seq-${i}`)
+        return note
+      })
+      const voice = new Voice({ numBeats: 4, beatValue: 4 })
+      voice.addTickables(notes)
+      const beams = Beam.generateBeams(notes)
+      new Formatter().joinVoices([voice]).formatToStave([voice], stave)
+      voice.draw(context, stave)
+      beams.forEach((b) => b.setContext(context).draw())
+      x += staveWidth
+    }
+
+    events.forEach((_, i) => {
+      const group = el.querySelector(`#vf-seq-${i}`)
+      if (!group) return
+      if (missed.includes(i)) group.classList.add('seq-missed')
+      else if (i < cursor) group.classList.add('seq-done')
+      if (i === cursor) group.classList.add('seq-current')
+    })
+
+    // Allow CSS to control final rendered size: remove fixed w/h attributes
+    const svgEl = el.querySelector('svg') as SVGSVGElement | null
+    if (svgEl) {
+      svgEl.setAttribute('viewBox', `0 0 ${width} ${height}`)
+      svgEl.removeAttribute('width')
+      svgEl.removeAttribute('height')
+      svgEl.setAttribute('preserveAspectRatio', 'xMidYMid meet')
+    }
+  }, [events, cursor, missed, spelling, keyFifths, notation])
+  // the phrase and the note to play next, for screen readers
+  const noteCount = events.filter((e) => e.midi != null).length
+  const current = events[cursor]?.midi
+  const label = current == null
+    ? t.staff.phrase(noteCount)
+    : t.staff.phraseAt(
+      noteCount,
+      events.slice(0, cursor + 1).filter((e) => e.midi != null).length,
+      midiToNameOctave(current, spelling, keyFifths, noteNames),
+    )
+  return <div className="staff-problem staff-sequence" ref={ref} role="img" aria-label={label} />
+}
@@ -0,0 +1,114 @@
+import { useMemo } from 'react'
+import { IoClose } from 'react-icons/io5'
+import { useI18n } from './i18n'
+import IntonationGraph from './IntonationGraph'
+import { midiToNameOctave, type SpellingPreference } from './notes'
+import { byDay, byNote, byString, summarize, type Attempt, type Summary } from './stats'
+
+type StatsPanelProps = {
+  title: string
+  attempts: Attempt[]
+  stringCount: number
+  spelling: SpellingPreference // note rows are named as in the banner
+  keyFifths: number
+  intonation?: number[] | null // fretless: cents off per note this session
+  centsTolerance?: number
+  onClose: () => void
+  onReset: () => void
+}
+
+function formatPct(s: Summary) {
+  return s.attempts ? `${Math.round(s.accuracy * 100)}%` : '-'
+}
+
+function formatMs(ms: number | null) {
+  return ms == null ? '-' : `${(ms / 1000).toFixed(2)}s`
+}
+
+function StatsRow({ label, summary }: { label: string; summary: Summary }) {
+  return (
+    <tr>
+      <th scope="row">{label}</th>
+      <td>{summary.attempts}</td>
+      <td>
+        <span className="stats-bar" style={{ width: `${Math.round(summary.accuracy * 100)}%` }} />
+        {formatPct(summary)}
+      </td>
+      <td>{formatMs(summary.medianLatencyMs)}</td>
+    </tr>
+  )
+}
+
+function StatsTable({ title, rows }: { title: string; rows: { key: string; label: string; summary: Summary }[] }) {
+  const { t } = useI18n()
+  return (
+    <section className="stats-section">
+      <h3>{title}</h3>
+      {rows.length === 0 ? (
+        <p className="stats-empty">{t.stats.empty}</p>
+      ) : (
+        <table className="stats-table">
+          <thead>
+            <tr>
+              <th />
+              <th>{t.stats.attempts}</th>
+              <th>{t.stats.accuracy}</th>
+              <th>{t.stats.latency}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => <StatsRow key={r.key} label={r.label} summary={r.summary} />)}
+          </tbody>
+        </table>
+      )}
+    </section>
+  )
+}
+
+export default function StatsPanel({ title, attempts, stringCount, spelling, keyFifths, intonation, centsTolerance = 20, onClose, onReset }: StatsPanelProps) {
+  const { t, noteNames } = useI18n()
+  const overall = useMemo(() => summarize(attempts), [attempts])
+  const noteRows = useMemo(
+    () => Array.from(byNote(attempts))
+      .sort(([a], [b]) => a - b)
+      .map(([midi, summary]) => ({ key: String(midi), label: midiToNameOctave(midi, spelling, keyFifths, noteNames), summary })),
+    [attempts, spelling, keyFifths, noteNames],
+  )
+  const stringRows = useMemo(
+    () => Array.from(byString(attempts))
+      .filter(([i]) => i < stringCount)
+      .sort(([a], [b]) => b - a)
+      .map(([i, summary]) => ({ key: String(i), label: t.stringNumber(stringCount - i), summary })),
+    [attempts, stringCount, t],
+  )
+  const dayRows = useMemo(
+    () => byDay(attempts).slice(-14).map(({ day, summary }) => ({ key: day, label: day, summary })),
+    [attempts],
+  )
+
+  return (
+    <div className="stats-panel" role="dialog" aria-label={title}>
+      <header className="stats-header">
+        <h2>{title}</h2>
+        <span className="stats-overall">
+          {t.stats.overall(overall.attempts, formatPct(overall), formatMs(overall.medianLatencyMs))}
+        </span>
+        <button className="stats-reset" onClick={onReset}>{t.stats.reset}</button>
+        <button className="stats-close" aria-label={t.close} onClick={onClose}>
+          <IoClose size={24} />
+        </button>
+      </header>
+      <div className="stats-body">
+        <StatsTable title={t.stats.byString} rows={stringRows} />
+        <StatsTable title={t.stats.byDay} rows={dayRows} />
+        <StatsTable title={t.stats.byNote} rows={noteRows} />
+        {intonation && (
+          <section className="stats-section">
+            <h3>{t.intonation.title}</h3>
+            <IntonationGraph cents={intonation} tolerance={centsTolerance} />
+          </section>
+        )}
+      </div>
+    </div>
+  )
+}
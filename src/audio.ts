@@ -1,9 +1,48 @@
+import { DEFAULT_PLUCK, renderPluck, type PluckOptions } from './pluck'
+import type { SamplePlayer } from './samples'
+
+// pluck: Karplus-Strong string model; samples: a loaded sample set (falls back to pluck when empty)
+export type VoiceKind = 'pluck' | 'samples'
+
+// ring: notes on other strings keep sounding; staccato: every note is damped
+// after a short time and cuts whatever was sounding (one note at a time)
+export type SustainMode = 'ring' | 'staccato'
+
+const PLUCK_CACHE_SIZE = 64
+const STACCATO_SECONDS = 0.3
+// voice for notes whose string is unknown (prompts, mic, MIDI without channels)
+const ANY_STRING = -1
+// room and speaker decay after the engine's own sound stops, still heard by the mic
+const INPUT_HOLD_TAIL = 0.25
+
+type Voice = { gain: GainNode; source: AudioScheduledSourceNode }
+
 export class AudioEngine {
-  private ctx: AudioContext | null = null
+  private ctx: BaseAudioContext | null = null
+  // true when the engine was given an OfflineAudioContext to render into
+  private offline: boolean
   private master: GainNode | null = null
-  private current: { gain: GainNode; osc: OscillatorNode; filter: BiquadFilterNode } | null = null
+  private volume = 0.9
+  private muted = false
+  // one sounding voice per string index, so a new note on a string mutes the last
+  private voices = new Map<number, Voice>()
+  private sustain: SustainMode = 'ring'
+  // sustained reference tone, independent of the plucked voice
+  private drone: { gain: GainNode; osc: OscillatorNode } | null = null
+  private voice: VoiceKind = 'pluck'
+  private pluck: PluckOptions = { ...DEFAULT_PLUCK }
+  private samples: SamplePlayer | null = null
+  private pluckCache = new Map<string, AudioBuffer>()
+  // context time until which the engine's own prompts can still reach the microphone
+  private inputHeldUntil = 0
 
-  private getContext(): AudioContext {
+  // Pass a context (e.g. an OfflineAudioContext) to render somewhere other than the speakers
+  constructor(ctx?: BaseAudioContext) {
+    this.ctx = ctx ?? null
+    this.offline = ctx != null && !(typeof AudioContext !== 'undefined' && ctx instanceof AudioContext)
+  }
+
+  getContext(): BaseAudioContext {
     if (!this.ctx) {
       const AC = (window as any).AudioContext || (window as any).webkitAudioContext
       this.ctx = new AC()
@@ -11,73 +50,309 @@ export class AudioEngine {
     const ctx = this.ctx!
     if (!this.master) {
       this.master = ctx.createGain()
-      this.master.gain.value = 0.9
+      this.master.gain.value = this.masterLevel()
       this.master.connect(ctx.destination)
     }
     return ctx
   }
 
+  // Seconds from scheduling a sound to hearing it; a player keeping time with the
+  // click answers this much late
+  outputLatency(): number {
+    if (this.offline || !this.ctx) return 0
+    const ctx = this.ctx as AudioContext
+    return (ctx.outputLatency ?? 0) + (ctx.baseLatency ?? 0)
+  }
+
+  // Realtime context for inputs such as the microphone
+  getLiveContext(): AudioContext {
+    if (this.offline) throw new Error('offline audio engine has no live context')
+    return this.getContext() as AudioContext
+  }
+
+  // Node feeding the speakers (or the offline render); other sound sources connect here
+  getOutput(): AudioNode {
+    this.getContext()
+    return this.master!
+  }
+
   ensure() {
     const ctx = this.getContext()
-    if (ctx.state === 'suspended') ctx.resume()
+    if (!this.offline && ctx.state === 'suspended') (ctx as AudioContext).resume()
+  }
+
+  private masterLevel() {
+    return this.muted ? 0 : this.volume
+  }
+
+  // 0..1, applied to everything including the metronome and feedback sounds
+  setVolume(volume: number) {
+    this.volume = Math.min(1, Math.max(0, volume))
+    this.applyMaster()
+  }
+
+  setMuted(muted: boolean) {
+    this.muted = muted
+    this.applyMaster()
+  }
+
+  private applyMaster() {
+    if (!this.master || !this.ctx) return
+    // short glide so volume changes do not click
+    this.master.gain.setTargetAtTime(this.masterLevel(), this.ctx.currentTime, 0.015)
+  }
+
+  setSustain(sustain: SustainMode) {
+    this.sustain = sustain
+    if (sustain === 'staccato') this.stopAll()
+  }
+
+  setVoice(voice: VoiceKind) {
+    this.voice = voice
+  }
+
+  setPluck(options: Partial<PluckOptions>) {
+    this.pluck = { ...this.pluck, ...options }
+  }
+
+  setSamples(samples: SamplePlayer | null) {
+    this.samples = samples
   }
 
   private midiToHz(midi: number) {
     return 440 * Math.pow(2, (midi - 69) / 12)
   }
 
-  stopCurrent(fadeMs = 40) {
-    if (!this.current || !this.ctx) return
-    const now = this.ctx.currentTime
+  private release(voice: Voice, at: number, fadeMs: number) {
     try {
-      this.current.gain.gain.cancelScheduledValues(now)
-      this.current.gain.gain.setTargetAtTime(0, now, Math.max(0.001, fadeMs / 1000))
-    } catch {}
-    try { this.current.osc.stop(now + Math.max(0.02, fadeMs / 1000 + 0.01)) } catch {}
-    this.current = null
+      voice.gain.gain.cancelScheduledValues(at)
+      voice.gain.gain.setTargetAtTime(0, at, Math.max(0.001, fadeMs / 1000))
+    } catch { /* already released */ }
+    try { voice.source.stop(at + Math.max(0.02, fadeMs / 1000 + 0.01)) } catch { /* already stopped */ }
+  }
+
+  // Mute the note ringing on one string
+  stopString(stringIndex: number, fadeMs = 40) {
+    const voice = this.voices.get(stringIndex)
+    if (!voice || !this.ctx) return
+    this.release(voice, this.ctx.currentTime, fadeMs)
+    this.voices.delete(stringIndex)
+  }
+
+  stopAll(fadeMs = 40) {
+    for (const stringIndex of [...this.voices.keys()]) this.stopString(stringIndex, fadeMs)
+  }
+
+  // Silence everything sounding; kept as the engine's stop entry point
+  stopCurrent(fadeMs = 40) {
+    this.stopAll(fadeMs)
+  }
+
+  // Rendered string model per note and setting, kept for reuse; fractional notes to the cent
+  private pluckBuffer(midi: number): AudioBuffer {
+    const ctx = this.getContext()
+    const { tone, pluckPosition, mute } = this.pluck
+    const cents = Math.round(midi * 100) / 100
+    const key = [cents, ctx.sampleRate, tone, pluckPosition, mute].join(':')
+    let buffer = this.pluckCache.get(key)
+    if (!buffer) {
+      const data = renderPluck(this.midiToHz(cents), ctx.sampleRate, this.pluck)
+      buffer = ctx.createBuffer(1, data.length, ctx.sampleRate)
+      buffer.copyToChannel(data, 0)
+      if (this.pluckCache.size >= PLUCK_CACHE_SIZE) {
+        this.pluckCache.delete(this.pluckCache.keys().next().value!)
+      }
+      this.pluckCache.set(key, buffer)
+    }
+    return buffer
   }
 
-  playMidi(midi: number) {
+  // `string` picks the voice to replace (unknown strings share one); `when` is in context time, default now;
+  // `duration` damps the note after that many seconds.
+  // `midi` may fall between semitones (fretless) and sounds at that exact pitch.
+  playMidi(midi: number, options: { string?: number; when?: number; duration?: number } = {}) {
     const ctx = this.getContext()
-    if (ctx.state === 'suspended') ctx.resume()
+    this.ensure()
+    const key = options.string ?? ANY_STRING
+    const start = options.when ?? ctx.currentTime
 
-    // stop anything sounding
-    this.stopCurrent(40)
+    // same string (or any string when staccato): the new note mutes the old one
+    if (this.sustain === 'staccato') this.stopAll(40)
+    else this.stopString(key, 40)
+
+    let source: AudioBufferSourceNode | null = null
+    if (this.voice === 'samples' && this.samples) source = this.samples.createSource(ctx, midi)
+    if (!source) {
+      source = ctx.createBufferSource()
+      source.buffer = this.pluckBuffer(midi)
+    }
+
+    const gain = ctx.createGain()
+    gain.gain.value = 0.8
+    source.connect(gain)
+    gain.connect(this.master!)
+    source.start(start)
+
+    const voice = { gain, source }
+    this.voices.set(key, voice)
+    source.onended = () => {
+      if (this.voices.get(key) === voice) this.voices.delete(key)
+    }
+    if (this.sustain === 'staccato') this.release(voice, start + STACCATO_SECONDS, 60)
+    else if (options.duration != null) this.release(voice, start + options.duration, 60)
+  }
+
+  // Mark the engine's own sound as audible for `seconds` from now, so microphone
+  // input can be ignored instead of answering the app's own prompt
+  holdInput(seconds: number) {
+    const end = this.getContext().currentTime + seconds + INPUT_HOLD_TAIL
+    this.inputHeldUntil = Math.max(this.inputHeldUntil, end)
+  }
+
+  inputHeld(): boolean {
+    return this.drone != null || (this.ctx != null && this.ctx.currentTime < this.inputHeldUntil)
+  }
+
+  // Short cue for a right or wrong answer, separate from the note voices
+  playFeedback(correct: boolean) {
+    const ctx = this.getContext()
+    this.ensure()
+    const now = ctx.currentTime
+    // right: two rising blips; wrong: one low buzz
+    const tones = correct ? [[1046.5, 0], [1568, 0.07]] : [[110, 0]]
+    for (const [hz, offset] of tones) {
+      const osc = ctx.createOscillator()
+      const gain = ctx.createGain()
+      osc.type = correct ? 'sine' : 'square'
+      osc.frequency.value = hz
+      const t = now + offset
+      const length = correct ? 0.09 : 0.18
+      const level = correct ? 0.22 : 0.08
+      gain.gain.setValueAtTime(0, t)
+      gain.gain.linearRampToValueAtTime(level, t + 0.005)
+      gain.gain.exponentialRampToValueAtTime(0.0001, t + length)
+      osc.connect(gain)
+      gain.connect(this.master!)
+      osc.start(t)
+      osc.stop(t + length + 0.02)
+    }
+    // both cues are within the pitch detector's range: keep the mic from scoring them
+    this.holdInput(correct ? 0.18 : 0.2)
+  }
+
+  startDrone(midi: number, level = 0.18) {
+    const ctx = this.getContext()
+    this.ensure()
+    this.stopDrone(60)
 
     const osc = ctx.createOscillator()
-    osc.type = 'triangle'
+    osc.type = 'sawtooth'
     osc.frequency.value = this.midiToHz(midi)
 
     const filter = ctx.createBiquadFilter()
     filter.type = 'lowpass'
-    filter.frequency.value = 1800
-    filter.Q.value = 0.6
+    filter.frequency.value = 400
+    filter.Q.value = 0.5
 
     const gain = ctx.createGain()
-    gain.gain.value = 0
+    const now = ctx.currentTime
+    gain.gain.setValueAtTime(0, now)
+    gain.gain.linearRampToValueAtTime(level, now + 0.4)
 
     osc.connect(filter)
     filter.connect(gain)
     gain.connect(this.master!)
-
-    const now = ctx.currentTime
-    // Simple pluck envelope
-    const attack = 0.005
-    const decay = 0.12
-    const sustain = 0.0
-    const release = 0.4
-
-    gain.gain.cancelScheduledValues(now)
-    gain.gain.setValueAtTime(0, now)
-    gain.gain.linearRampToValueAtTime(0.9, now + attack)
-    gain.gain.linearRampToValueAtTime(sustain, now + attack + decay)
-
     osc.start(now)
-    // schedule stop (will also be cut if another note triggers)
-    osc.stop(now + attack + decay + release + 0.4)
+    this.drone = { gain, osc }
+  }
 
-    this.current = { gain, osc, filter }
+  stopDrone(fadeMs = 200) {
+    if (!this.drone || !this.ctx) return
+    const now = this.ctx.currentTime
+    try {
+      this.drone.gain.gain.cancelScheduledValues(now)
+      this.drone.gain.gain.setTargetAtTime(0, now, Math.max(0.001, fadeMs / 3000))
+      this.drone.osc.stop(now + fadeMs / 1000 + 0.05)
+    } catch { /* already stopped */ }
+    this.drone = null
   }
 }
 
 export const audio = new AudioEngine()
+
+// Render one note without speakers, e.g. for checks in a headless browser
+export async function renderNoteOffline(
+  midi: number,
+  options: { seconds?: number; sampleRate?: number; pluck?: Partial<PluckOptions>; samples?: SamplePlayer } = {},
+): Promise<AudioBuffer> {
+  const sampleRate = options.sampleRate ?? 44100
+  const ctx = new OfflineAudioContext(1, Math.ceil((options.seconds ?? 2) * sampleRate), sampleRate)
+  const engine = new AudioEngine(ctx)
+  if (options.pluck) engine.setPluck(options.pluck)
+  if (options.samples) {
+    engine.setSamples(options.samples)
+    engine.setVoice('samples')
+  }
+  engine.playMidi(midi, { when: 0 })
+  return ctx.startRendering()
+}
+
+// Microphone capture: polls an AnalyserNode and hands raw frames to a callback
+// (pitch analysis itself lives in pitch.ts)
+export class MicListener {
+  private stream: MediaStream | null = null
+  private source: MediaStreamAudioSourceNode | null = null
+  private timer: number | null = null
+  // bumped by every start/stop, so a start still waiting on permission knows it was stopped
+  private generation = 0
+  private frameSeconds = 0 // analysis window
+  private pollSeconds = 0
+  private engine: AudioEngine
+  constructor(engine: AudioEngine) {
+    this.engine = engine
+  }
+
+  async start(onFrame: (buf: Float32Array, sampleRate: number) => void, intervalMs = 40, fftSize = 4096) {
+    this.stop()
+    const generation = this.generation
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+    })
+    // stopped while the permission prompt was open: release the mic right away
+    if (generation !== this.generation) {
+      stream.getTracks().forEach((t) => t.stop())
+      return
+    }
+    this.engine.ensure()
+    const ctx = this.engine.getLiveContext()
+    const source = ctx.createMediaStreamSource(stream)
+    const analyser = ctx.createAnalyser()
+    analyser.fftSize = fftSize
+    source.connect(analyser) // not routed to the speakers
+    const buf = new Float32Array(analyser.fftSize)
+    this.stream = stream
+    this.source = source
+    this.frameSeconds = fftSize / ctx.sampleRate
+    this.pollSeconds = intervalMs / 1000
+    this.timer = window.setInterval(() => {
+      analyser.getFloatTimeDomainData(buf)
+      onFrame(buf, ctx.sampleRate)
+    }, intervalMs)
+  }
+
+  // Seconds from a note's onset to its report: the window filling, half a poll on
+  // average, then `holdFrames` matching frames
+  latency(holdFrames = 1): number {
+    return this.frameSeconds + this.pollSeconds * (holdFrames - 0.5)
+  }
+
+  stop() {
+    this.generation += 1
+    if (this.timer != null) window.clearInterval(this.timer)
+    this.timer = null
+    try { this.source?.disconnect() } catch { /* already disconnected */ }
+    this.stream?.getTracks().forEach((t) => t.stop())
+    this.stream = null
+    this.source = null
+  }
+}
@@ -0,0 +1,122 @@
+// Keyboard and gamepad control of a cursor cell on the string × fret grid.
+// Both map to the same small set of actions so the app handles them once.
+import { inRegion, type DrillRegion, type Target } from './quiz'
+
+export type BoardAction =
+  | { kind: 'move'; dString: number; dFret: number } // dString +1 = toward the higher string
+  | { kind: 'string'; number: number } // string number as labelled, 1 = highest
+  | { kind: 'answer' }
+  | { kind: 'skip' }
+  | { kind: 'reveal' }
+  | { kind: 'replay' }
+  | { kind: 'settings' }
+
+// Key help, labelled per action in the locale catalogs
+export const SHORTCUTS: { keys: string; action: BoardAction['kind'] }[] = [
+  { keys: '← → ↑ ↓', action: 'move' },
+  { keys: 'Enter / Space', action: 'answer' },
+  { keys: '1–8', action: 'string' },
+  { keys: 'N', action: 'skip' },
+  { keys: 'H', action: 'reveal' },
+  { keys: 'P', action: 'replay' },
+  { keys: 'O', action: 'settings' },
+]
+
+// Action for a key press; form fields keep their own keys
+export function keyAction(e: Pick<KeyboardEvent, 'key' | 'altKey' | 'ctrlKey' | 'metaKey'>): BoardAction | null {
+  if (e.altKey || e.ctrlKey || e.metaKey) return null
+  switch (e.key) {
+    case 'ArrowUp': return { kind: 'move', dString: 1, dFret: 0 }
+    case 'ArrowDown': return { kind: 'move', dString: -1, dFret: 0 }
+    case 'ArrowLeft': return { kind: 'move', dString: 0, dFret: -1 }
+    case 'ArrowRight': return { kind: 'move', dString: 0, dFret: 1 }
+    case 'Enter':
+    case ' ': return { kind: 'answer' }
+    case 'n': case 'N': return { kind: 'skip' }
+    case 'h': case 'H': return { kind: 'reveal' }
+    case 'p': case 'P': return { kind: 'replay' }
+    case 'o': case 'O': return { kind: 'settings' }
+  }
+  if (/^[1-9]$/.test(e.key)) return { kind: 'string', number: Number(e.key) }
+  return null
+}
+
+// Starting cell: the lowest fret of the region on its middle string
+function firstCell(region: DrillRegion): Target {
+  return { stringIndex: region.strings[Math.floor(region.strings.length / 2)], fret: region.frets.min }
+}
+
+// Cursor after a move or string jump; stays inside the region, null when the action does not move it.
+// `flipped` mirrors the board both ways, so moves follow what is on screen.
+export function moveCursor(
+  cursor: Target | null,
+  action: BoardAction,
+  region: DrillRegion,
+  stringCount: number,
+  flipped = false,
+): Target | null {
+  const start = cursor && inRegion(region, cursor) ? cursor : null
+  if (action.kind === 'string') {
+    const stringIndex = stringCount - action.number
+    return region.strings.includes(stringIndex) ? { stringIndex, fret: start?.fret ?? region.frets.min } : null
+  }
+  if (action.kind !== 'move') return null
+  if (!start) return firstCell(region)
+  const sign = flipped ? -1 : 1
+  const strings = region.strings
+  const at = strings.indexOf(start.stringIndex)
+  const stringIndex = strings[Math.min(strings.length - 1, Math.max(0, at + action.dString * sign))]
+  const fret = Math.min(region.frets.max, Math.max(region.frets.min, start.fret + action.dFret * sign))
+  return { stringIndex, fret }
+}
+
+// Standard-mapping buttons: A, B, X, Y, …, Start, D-pad up/down/left/right
+const PAD_BUTTONS: [number, BoardAction][] = [
+  [12, { kind: 'move', dString: 1, dFret: 0 }],
+  [13, { kind: 'move', dString: -1, dFret: 0 }],
+  [14, { kind: 'move', dString: 0, dFret: -1 }],
+  [15, { kind: 'move', dString: 0, dFret: 1 }],
+  [0, { kind: 'answer' }],
+  [1, { kind: 'reveal' }],
+  [2, { kind: 'skip' }],
+  [3, { kind: 'replay' }],
+  [9, { kind: 'settings' }],
+]
+
+const REPEAT_DELAY_MS = 350
+const REPEAT_MS = 90
+
+export type GamepadLike = { index: number; buttons: readonly { pressed: boolean }[] } | null
+
+// Poll gamepads each frame; D-pad moves repeat while held. Returns a disconnect function.
+export function connectGamepads(
+  onAction: (action: BoardAction) => void,
+  getPads: () => readonly GamepadLike[] = () => navigator.getGamepads(),
+): () => void {
+  // per pad and button: when it went down and when it last fired
+  const held = new Map<string, { since: number; last: number }>()
+  let frame = 0
+  const poll = (now: number) => {
+    for (const pad of getPads()) {
+      if (!pad) continue
+      for (const [button, action] of PAD_BUTTONS) {
+        const key = `${pad.index}:${button}`
+        if (!pad.buttons[button]?.pressed) {
+          held.delete(key)
+          continue
+        }
+        const state = held.get(key)
+        if (!state) {
+          held.set(key, { since: now, last: now })
+          onAction(action)
+        } else if (action.kind === 'move' && now - state.since > REPEAT_DELAY_MS && now - state.last > REPEAT_MS) {
+          state.last = now
+          onAction(action)
+        }
+      }
+    }
+    frame = requestAnimationFrame(poll)
+  }
+  frame = requestAnimationFrame(poll)
+  return () => cancelAnimationFrame(frame)
+}
@@ -0,0 +1,155 @@
+import { isStringCount, standardTuning, TUNING_MAX_MIDI, TUNING_MIN_MIDI, type StringCount, type Tuning } from './tuning'
+import { clampWindow, type FretWindow, type QuizMode } from './quiz'
+import { INTERVAL_SEMITONES } from './intervals'
+import { FRET_COUNTS, SEQUENCE_MEASURES } from './settings'
+
+// Everything that decides which targets a drill asks, plus its seed.
+// Modes, views, kinds and pattern ids are kept as strings here; the app checks them against its own lists.
+export type DrillConfig = {
+  stringCount: StringCount
+  tuning: Tuning
+  frets: number
+  strings: number[] // empty = all
+  fretRange: FretWindow
+  trainingMode: string
+  quizMode: QuizMode
+  window: FretWindow
+  view: string
+  format: string
+  // phrase reading
+  measures: number
+  rhythms: boolean
+  rests: boolean
+  // interval training
+  intervals: number[]
+  intervalKind: string
+  intervalReach: string
+  // scales and arpeggios
+  patternKey: number
+  pattern: string
+  patternOrder: string
+  seed: string
+}
+
+// Values for fields a link leaves out, as in a fresh profile
+const DRILL_DEFAULTS = {
+  measures: 2,
+  rhythms: true,
+  rests: false,
+  intervals: [3, 4, 7, 10],
+  intervalKind: 'interval',
+  intervalReach: 'any',
+  patternKey: 0,
+  pattern: 'major',
+  patternOrder: 'ordered',
+}
+
+const VERSION = '1'
+const QUIZ_MODES: QuizMode[] = ['pitch', 'string', 'window']
+const SEED_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+
+function encodeRange(w: FretWindow): string {
+  return `${w.min}-${w.max}`
+}
+
+function decodeRange(raw: string | null, frets: number): FretWindow | null {
+  const m = raw?.match(/^(\d+)-(\d+)$/)
+  return m ? clampWindow({ min: Number(m[1]), max: Number(m[2]) }, frets) : null
+}
+
+function decodeInts(raw: string | null): number[] {
+  if (!raw) return []
+  return raw.split('.').map(Number).filter((n) => Number.isInteger(n))
+}
+
+function decodeFlag(raw: string | null, fallback: boolean): boolean {
+  return raw === '1' ? true : raw === '0' ? false : fallback
+}
+
+// URL hash for a drill, e.g. "#v=1&n=4&t=28.33.38.43&…&seed=k3j9x0ab"
+export function encodeDrill(c: DrillConfig): string {
+  const p = new URLSearchParams({
+    v: VERSION,
+    n: String(c.stringCount),
+    t: c.tuning.join('.'),
+    k: String(c.frets),
+    s: c.strings.join('.'),
+    f: encodeRange(c.fretRange),
+    m: c.trainingMode,
+    q: c.quizMode,
+    w: encodeRange(c.window),
+    p: c.view,
+    r: c.format,
+    sm: String(c.measures),
+    sr: c.rhythms ? '1' : '0',
+    se: c.rests ? '1' : '0',
+    i: c.intervals.join('.'),
+    ik: c.intervalKind,
+    ir: c.intervalReach,
+    pk: String(c.patternKey),
+    pt: c.pattern,
+    po: c.patternOrder,
+    seed: c.seed,
+  })
+  return `#${p.toString()}`
+}
+
+// Parse a drill hash; null when it is not one. Out-of-range values fall back
+// to defaults rather than failing the whole link.
+export function decodeDrill(hash: string): DrillConfig | null {
+  const p = new URLSearchParams(hash.replace(/^#/, ''))
+  const seed = p.get('seed')
+  if (p.get('v') !== VERSION || !seed || !SEED_PATTERN.test(seed)) return null
+  const n = Number(p.get('n'))
+  const stringCount: StringCount = isStringCount(n) ? n : 4
+  const rawTuning = decodeInts(p.get('t'))
+  const tuning = rawTuning.length === stringCount && rawTuning.every((m) => m >= TUNING_MIN_MIDI && m <= TUNING_MAX_MIDI)
+    ? rawTuning
+    : standardTuning(stringCount)
+  const k = Number(p.get('k'))
+  const frets = (FRET_COUNTS as readonly number[]).includes(k) ? k : 21
+  const quizMode = p.get('q') as QuizMode
+  const measures = Number(p.get('sm'))
+  const intervals = Array.from(new Set(decodeInts(p.get('i')).filter((s) => INTERVAL_SEMITONES.includes(s))))
+  const patternKey = Number(p.get('pk'))
+  return {
+    stringCount,
+    tuning,
+    frets,
+    strings: Array.from(new Set(decodeInts(p.get('s')).filter((i) => i >= 0 && i < stringCount))),
+    fretRange: decodeRange(p.get('f'), frets) ?? { min: 0, max: frets },
+    trainingMode: p.get('m') ?? '',
+    quizMode: QUIZ_MODES.includes(quizMode) ? quizMode : 'pitch',
+    window: decodeRange(p.get('w'), frets) ?? { min: 5, max: 9 },
+    view: p.get('p') ?? '',
+    format: p.get('r') ?? '',
+    measures: (SEQUENCE_MEASURES as readonly number[]).includes(measures) ? measures : DRILL_DEFAULTS.measures,
+    rhythms: decodeFlag(p.get('sr'), DRILL_DEFAULTS.rhythms),
+    rests: decodeFlag(p.get('se'), DRILL_DEFAULTS.rests),
+    intervals: intervals.length > 0 ? intervals : DRILL_DEFAULTS.intervals,
+    intervalKind: p.get('ik') ?? DRILL_DEFAULTS.intervalKind,
+    intervalReach: p.get('ir') ?? DRILL_DEFAULTS.intervalReach,
+    patternKey: Number.isInteger(patternKey) && patternKey >= 0 && patternKey <= 11 ? patternKey : DRILL_DEFAULTS.patternKey,
+    pattern: p.get('pt') ?? DRILL_DEFAULTS.pattern,
+    patternOrder: p.get('po') ?? DRILL_DEFAULTS.patternOrder,
+    seed,
+  }
+}
+
+// The daily challenge fixes the instrument and area so the notes match for everyone
+export function dailyConfig(seed: string): DrillConfig {
+  return {
+    stringCount: 4,
+    tuning: standardTuning(4),
+    frets: 21,
+    strings: [],
+    fretRange: { min: 0, max: 12 },
+    trainingMode: 'reading',
+    quizMode: 'pitch',
+    window: { min: 5, max: 9 },
+    view: 'text',
+    format: 'single',
+    ...DRILL_DEFAULTS,
+    seed,
+  }
+}
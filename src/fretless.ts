@@ -0,0 +1,43 @@
+// Fretless playing: a continuous position along the string and intonation in cents.
+// Positions are in frets (semitones above the open string), placed with the same
+// equal-tempered scale-length geometry that spaces the frets of a fretted board.
+
+export type FretLines = 'lined' | 'unlined'
+
+// ± cents counted as in tune
+export const CENTS_TOLERANCES = [10, 20, 35] as const
+
+// Distance from the nut of a (possibly fractional) fret position
+export function fretDistance(position: number, scaleLength: number): number {
+  return scaleLength - scaleLength / Math.pow(2, position / 12)
+}
+
+// Fret position at a distance from the nut; inverse of fretDistance
+export function positionAt(distance: number, scaleLength: number): number {
+  const d = Math.min(Math.max(0, distance), scaleLength * 0.999)
+  return 12 * Math.log2(scaleLength / (scaleLength - d))
+}
+
+// Signed cents from the target; positive = sharp
+export function centsOff(midi: number, targetMidi: number): number {
+  return Math.round((midi - targetMidi) * 100)
+}
+
+export type IntonationSummary = {
+  count: number
+  meanAbsCents: number
+  meanCents: number // signed: leaning sharp (+) or flat (-)
+  inTune: number // share of notes within the tolerance, 0..1
+}
+
+export function summarizeIntonation(cents: readonly number[], tolerance: number): IntonationSummary | null {
+  if (cents.length === 0) return null
+  const sum = cents.reduce((a, c) => a + c, 0)
+  const abs = cents.reduce((a, c) => a + Math.abs(c), 0)
+  return {
+    count: cents.length,
+    meanAbsCents: Math.round(abs / cents.length),
+    meanCents: Math.round(sum / cents.length),
+    inTune: cents.filter((c) => Math.abs(c) <= tolerance).length / cents.length,
+  }
+}
@@ -0,0 +1,122 @@
+// Game rounds on top of the quiz loop
+// timed: as many correct answers as possible before the clock runs out
+// sprint: a fixed number of correct answers as fast as possible
+// survival: keep going until the lives are used up
+export type GameMode = 'free' | 'timed' | 'sprint' | 'survival'
+
+export type GameRules = {
+  durationMs: number | null
+  targetCount: number | null
+  lives: number | null
+}
+
+export const GAME_RULES: Record<Exclude<GameMode, 'free'>, GameRules> = {
+  timed: { durationMs: 60_000, targetCount: null, lives: null },
+  sprint: { durationMs: null, targetCount: 30, lives: null },
+  survival: { durationMs: null, targetCount: null, lives: 3 },
+}
+
+export type GameRound = {
+  mode: Exclude<GameMode, 'free'>
+  startedAt: number // Date.now()
+  endedAt: number | null
+  correct: number
+  wrong: number
+  lives: number | null
+}
+
+export type LeaderboardEntry = {
+  score: number // correct answers, or elapsed ms for sprint
+  correct: number
+  wrong: number
+  durationMs: number
+  ts: number
+}
+
+// personal bests per configuration key
+export type Leaderboards = Record<string, LeaderboardEntry[]>
+
+export const LEADERBOARD_SIZE = 10
+
+export function startRound(mode: Exclude<GameMode, 'free'>, now: number): GameRound {
+  return { mode, startedAt: now, endedAt: null, correct: 0, wrong: 0, lives: GAME_RULES[mode].lives }
+}
+
+export function isOver(round: GameRound): boolean {
+  return round.endedAt != null
+}
+
+export function remainingMs(round: GameRound, now: number): number | null {
+  const { durationMs } = GAME_RULES[round.mode]
+  if (durationMs == null) return null
+  return Math.max(0, round.startedAt + durationMs - (round.endedAt ?? now))
+}
+
+export function elapsedMs(round: GameRound, now: number): number {
+  const { durationMs } = GAME_RULES[round.mode]
+  const elapsed = (round.endedAt ?? now) - round.startedAt
+  return durationMs == null ? elapsed : Math.min(durationMs, elapsed)
+}
+
+// Close a timed round once its clock has run out
+export function tick(round: GameRound, now: number): GameRound {
+  if (isOver(round)) return round
+  const left = remainingMs(round, now)
+  return left === 0 ? { ...round, endedAt: round.startedAt + GAME_RULES[round.mode].durationMs! } : round
+}
+
+export function applyAnswer(round: GameRound, correct: boolean, now: number): GameRound {
+  const current = tick(round, now)
+  if (isOver(current)) return current
+  const rules = GAME_RULES[round.mode]
+  const next = correct
+    ? { ...current, correct: current.correct + 1 }
+    : { ...current, wrong: current.wrong + 1, lives: current.lives == null ? null : current.lives - 1 }
+  const done = (rules.targetCount != null && next.correct >= rules.targetCount) || (next.lives != null && next.lives <= 0)
+  return done ? { ...next, endedAt: now } : next
+}
+
+// Lower is better only for sprint times
+export function isBetter(mode: GameRound['mode'], a: LeaderboardEntry, b: LeaderboardEntry): boolean {
+  return mode === 'sprint' ? a.score < b.score : a.score > b.score
+}
+
+// Entry for a finished round, or null when it does not count (an unfinished sprint)
+export function roundEntry(round: GameRound): LeaderboardEntry | null {
+  if (round.endedAt == null) return null
+  const durationMs = elapsedMs(round, round.endedAt)
+  const rules = GAME_RULES[round.mode]
+  if (rules.targetCount != null && round.correct < rules.targetCount) return null
+  const score = round.mode === 'sprint' ? durationMs : round.correct
+  return { score, correct: round.correct, wrong: round.wrong, durationMs, ts: round.endedAt }
+}
+
+// Insert into the board for `key`; rank is 0-based, or -1 when it did not make the list
+export function addScore(
+  boards: Leaderboards,
+  key: string,
+  mode: GameRound['mode'],
+  entry: LeaderboardEntry,
+): { boards: Leaderboards; rank: number } {
+  const list = (boards[key] ?? []).slice()
+  let rank = list.findIndex((e) => isBetter(mode, entry, e))
+  if (rank === -1) rank = list.length
+  list.splice(rank, 0, entry)
+  const trimmed = list.slice(0, LEADERBOARD_SIZE)
+  return { boards: { ...boards, [key]: trimmed }, rank: rank < LEADERBOARD_SIZE ? rank : -1 }
+}
+
+// Scores are only comparable on the same instrument setup and area
+export function configKey(
+  trainingMode: string,
+  mode: GameRound['mode'],
+  stringCount: number,
+  tuning: number[],
+  frets: { min: number; max: number },
+  strings: number[] = [], // empty = all strings
+): string {
+  const parts = [trainingMode, mode, stringCount, tuning.join(','), `${frets.min}-${frets.max}`]
+  // all-string rounds keep the key they had before string subsets were part of it
+  if (strings.length > 0) parts.push(`s${[...strings].sort((a, b) => a - b).join('.')}`)
+  return parts.join('|')
+}
@@ -0,0 +1,50 @@
+// Locale selection and the message catalogs. Components read the active
+// catalog and note naming through I18nContext; App owns the setting.
+import { createContext, useContext } from 'react'
+import { LETTER_NAMES, type NoteNames } from './notes'
+import en from './locales/en'
+import ja from './locales/ja'
+import ko, { type Messages } from './locales/ko'
+
+export type { Messages }
+
+export type Locale = 'ko' | 'en' | 'ja'
+export const LOCALES: Locale[] = ['ko', 'en', 'ja']
+// 'auto' follows the browser languages
+export type LocaleSetting = Locale | 'auto'
+
+// Each language names itself in the picker
+export const LOCALE_NAMES: Record<Locale, string> = { ko: '한국어', en: 'English', ja: '日本語' }
+
+export const MESSAGES: Record<Locale, Messages> = { ko, en, ja }
+
+// First supported language in the browser's preference list; English otherwise
+export function detectLocale(languages: readonly string[]): Locale {
+  for (const lang of languages) {
+    const base = lang.toLowerCase().split('-')[0]
+    const match = LOCALES.find((l) => l === base)
+    if (match) return match
+  }
+  return 'en'
+}
+
+export function resolveLocale(setting: LocaleSetting, languages: readonly string[] = navigator.languages ?? [navigator.language]): Locale {
+  return setting === 'auto' ? detectLocale(languages) : setting
+}
+
+// Display names of data-table entries, falling back to the id
+export function tuningName(t: Messages, id: string): string {
+  return t.tuningNames[id as keyof Messages['tuningNames']] ?? id
+}
+
+export function patternName(t: Messages, id: string): string {
+  return t.patternNames[id as keyof Messages['patternNames']] ?? id
+}
+
+export type I18n = { locale: Locale; t: Messages; noteNames: NoteNames }
+
+export const I18nContext = createContext<I18n>({ locale: 'ko', t: ko, noteNames: LETTER_NAMES })
+
+export function useI18n(): I18n {
+  return useContext(I18nContext)
+}
@@ -0,0 +1,122 @@
+import type { Tuning } from './tuning'
+import { midiAt, type DrillRegion, type Target } from './quiz'
+import type { SpellingPreference } from './notes'
+
+// interval: the exact distance above the root (e.g. the major 3rd above A2)
+// degree: the scale degree of the root as tonic, in any octave (e.g. the ♭7 of G)
+export type IntervalKind = 'interval' | 'degree'
+
+// where the answer may be played relative to the root
+// any: anywhere in the practice area; same: on the root's string;
+// adjacent: on the root's string or a neighbouring one
+export type IntervalReach = 'any' | 'same' | 'adjacent'
+
+export type IntervalQuestion = {
+  root: Target
+  rootMidi: number
+  semitones: number // 1..12 above the root
+}
+
+export const INTERVAL_SEMITONES = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]
+
+// Interval names for one language, indexed by semitones (0..12); the tritone
+// has two names and follows the spelling preference
+export type IntervalNames = {
+  bySemitones: string[]
+  augmentedFourth: string
+  diminishedFifth: string
+  semitones: (n: number) => string // anything without a name
+}
+
+const DEGREE_NAMES = ['1', '♭2', '2', '♭3', '3', '4', '', '5', '', '6', '♭7', '7']
+
+function mod12(n: number): number {
+  return ((n % 12) + 12) % 12
+}
+
+export function intervalName(semitones: number, spelling: SpellingPreference, names: IntervalNames): string {
+  if (semitones === 6) return spelling === 'sharps' ? names.augmentedFourth : names.diminishedFifth
+  return names.bySemitones[semitones] || names.semitones(semitones)
+}
+
+export function degreeName(semitones: number, spelling: SpellingPreference = 'sharps'): string {
+  const s = mod12(semitones)
+  if (s === 6) return spelling === 'sharps' ? '♯4' : '♭5'
+  if (s === 8) return spelling === 'sharps' ? '♯5' : '♭6'
+  return DEGREE_NAMES[s]
+}
+
+// Semitone choices that make sense for the kind (a degree of 0 or 12 is the root itself)
+export function usableSemitones(semitones: number[], kind: IntervalKind): number[] {
+  return semitones.filter((s) => INTERVAL_SEMITONES.includes(s) && (kind === 'interval' || mod12(s) !== 0))
+}
+
+export function withinReach(root: Target, hit: Target, reach: IntervalReach): boolean {
+  if (reach === 'same') return hit.stringIndex === root.stringIndex
+  if (reach === 'adjacent') return Math.abs(hit.stringIndex - root.stringIndex) <= 1
+  return true
+}
+
+function matchesDistance(distance: number, semitones: number, kind: IntervalKind, ignoreOctave: boolean): boolean {
+  return kind === 'degree' || ignoreOctave ? mod12(distance) === mod12(semitones) : distance === semitones
+}
+
+// Cells inside the region that answer the question
+export function answerCells(
+  tuning: Tuning,
+  q: IntervalQuestion,
+  kind: IntervalKind,
+  reach: IntervalReach,
+  region: DrillRegion,
+): Target[] {
+  const out: Target[] = []
+  for (const stringIndex of region.strings) {
+    for (let fret = region.frets.min; fret <= region.frets.max; fret += 1) {
+      const t = { stringIndex, fret }
+      if (stringIndex === q.root.stringIndex && fret === q.root.fret) continue
+      if (!withinReach(q.root, t, reach)) continue
+      if (matchesDistance(midiAt(tuning, t) - q.rootMidi, q.semitones, kind, false)) out.push(t)
+    }
+  }
+  return out
+}
+
+// Random root cell and interval with at least one answer in reach; `avoid` skips an immediate repeat
+export function pickIntervalQuestion(
+  tuning: Tuning,
+  region: DrillRegion,
+  semitones: number[],
+  kind: IntervalKind,
+  reach: IntervalReach,
+  rng: () => number = Math.random,
+  avoid: IntervalQuestion | null = null,
+): IntervalQuestion | null {
+  const candidates: IntervalQuestion[] = []
+  for (const s of usableSemitones(semitones, kind)) {
+    for (const stringIndex of region.strings) {
+      for (let fret = region.frets.min; fret <= region.frets.max; fret += 1) {
+        const root = { stringIndex, fret }
+        const q = { root, rootMidi: midiAt(tuning, root), semitones: s }
+        if (avoid && avoid.semitones === s && avoid.root.stringIndex === stringIndex && avoid.root.fret === fret) continue
+        if (answerCells(tuning, q, kind, reach, region).length > 0) candidates.push(q)
+      }
+    }
+  }
+  if (candidates.length === 0) return null
+  return candidates[Math.floor(rng() * candidates.length)]
+}
+
+// Whether an answer has the right distance from the root; reach is only
+// checked when the input knows the cell
+export function isCorrectInterval(
+  q: IntervalQuestion,
+  kind: IntervalKind,
+  reach: IntervalReach,
+  midi: number,
+  hit: Target | null,
+  ignoreOctave = false,
+): boolean {
+  if (!matchesDistance(midi - q.rootMidi, q.semitones, kind, ignoreOctave)) return false
+  if (hit && hit.stringIndex === q.root.stringIndex && hit.fret === q.root.fret) return false
+  return !hit || withinReach(q.root, hit, reach)
+}
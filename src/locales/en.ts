@@ -0,0 +1,284 @@
+import type { Messages } from './ko'
+
+function ordinal(n: number): string {
+  const tens = n % 100
+  if (tens >= 11 && tens <= 13) return `${n}th`
+  return `${n}${['th', 'st', 'nd', 'rd'][n % 10] ?? 'th'}`
+}
+
+const en: Messages = {
+  appTitle: 'Bass Fretboard Trainer',
+  appShortTitle: 'Fretboard',
+  board: 'Bass fretboard',
+  settings: 'Settings',
+  close: 'Close',
+  none: 'None',
+  stringNumber: (n) => `String ${n}`,
+  cell: (stringName, fret) => `${stringName} string, ${fret === 0 ? 'open' : `${ordinal(fret)} fret`}`,
+  fretRange: (min, max) => `frets ${min}–${max}`,
+  sameString: 'same string',
+  adjacentString: 'adjacent string',
+  intervalAbove: (root, interval) => `${interval} above ${root}`,
+  degreeOf: (root, degree) => `${degree} of ${root}`,
+  newTarget: (label) => `New note: ${label}`,
+  newEarTarget: 'New note: listen and answer',
+  correct: 'Correct',
+  wrong: 'Wrong',
+  answerAt: (cells) => `Answer: ${cells}`,
+  replay: 'Play again',
+  replayRoot: 'Play root',
+  linkCopied: 'Link copied',
+  micUnavailable: 'Microphone unavailable',
+  midiUnsupported: 'This browser does not support MIDI',
+  midiUnavailable: 'Cannot access MIDI devices',
+  noDevices: 'No devices',
+  samplesLoaded: (n) => `${n} sample${n === 1 ? '' : 's'}`,
+  samplesUnnamed: 'No file names with a note name',
+  samplesFailed: 'Could not load the samples',
+  samplesHint: 'Note name in the file name (e.g. E1.wav)',
+  dailyChallenge: 'Daily challenge',
+  dailySeed: (date) => `Daily challenge ${date}`,
+  seededShuffle: 'Random while a seed is set',
+
+  controls: {
+    language: 'Language',
+    noteNaming: 'Note names',
+    stringCount: 'Strings',
+    tuning: 'Tuning',
+    customTuning: 'Custom',
+    frets: 'Frets',
+    scaleLength: 'Scale (bass → treble)',
+    scaleBass: 'Bass-side scale',
+    scaleTreble: 'Treble-side scale',
+    perpendicularFret: 'Perpendicular fret',
+    theme: 'Fretboard',
+    reducedMotion: 'Reduce motion',
+    inlay: 'Inlays',
+    fretless: 'Fretless',
+    fretLines: 'Fret lines',
+    centsTolerance: 'Pitch tolerance',
+    sound: 'Play notes',
+    volume: 'Volume',
+    mute: 'Mute',
+    sustain: 'Sustain',
+    feedbackSounds: 'Answer sounds',
+    metronome: 'Metronome',
+    signature: 'Time',
+    subdivision: 'Subdivision',
+    accent: 'Accent',
+    groove: 'Answer on the beat',
+    grooveBeat: 'Answer beat',
+    grooveWindow: 'Timing window',
+    tempoRamp: 'Speed up',
+    voice: 'Sound',
+    tone: 'Tone',
+    pluckPosition: 'Pluck position',
+    pluckMute: 'Palm mute',
+    sampleFiles: 'Sample files',
+    problemView: 'Show notes as',
+    drillStrings: 'Practice strings',
+    drillFrets: 'Practice frets',
+    trainingMode: 'Mode',
+    patternKey: 'Key',
+    patternOrder: 'Order',
+    intervalKind: 'Question',
+    degrees: 'Degrees',
+    intervals: 'Intervals',
+    intervalReach: 'Answer on',
+    earReference: 'Reference',
+    quizMode: 'Position',
+    quizWindow: 'Window',
+    selection: 'Note choice',
+    input: 'Input',
+    channelPerString: 'Channel = string',
+    gamepad: 'Gamepad',
+    shortcuts: 'Shortcuts',
+    octaveTolerant: 'Ignore octave',
+    heatmap: 'Heatmap',
+    game: 'Game',
+    newRound: 'New round',
+    seed: 'Seed',
+    copyLink: 'Copy link',
+    clearSeed: 'Clear',
+    stats: 'Statistics',
+    readingFormat: 'Format',
+    measures: 'Bars',
+    rhythms: 'Rhythms',
+    rests: 'Rests',
+    spelling: 'Accidentals',
+    keySignature: 'Key signature',
+    sideDots: 'Side dots',
+    binding: 'Binding',
+    flipBoth: 'Flip board',
+  },
+
+  options: {
+    localeAuto: 'Automatic',
+    perpendicularNut: 'Nut',
+    theme: {
+      ebony: 'Ebony',
+      maple: 'Maple',
+      rosewood: 'Rosewood',
+      pauferro: 'Pau ferro',
+      contrastDark: 'High contrast (black)',
+      contrastLight: 'High contrast (white)',
+    },
+    inlay: { dot: 'Dots', block: 'Blocks', none: 'None' },
+    fretLines: { lined: 'Lined', unlined: 'Unlined' },
+    centsTolerance: { 10: 'Strict', 20: 'Normal', 35: 'Loose' },
+    sustain: { ring: 'Let ring (per string)', staccato: 'Staccato' },
+    subdivision: { 1: 'None', 2: 'Eighths', 3: 'Triplets', 4: 'Sixteenths' },
+    grooveWindow: { 50: 'Strict', 90: 'Normal', 140: 'Loose' },
+    voice: { pluck: 'Bass model', samples: 'Samples' },
+    problemView: {
+      text: 'Text',
+      staff: 'Staff (bass clef)',
+      staffConcert: 'Staff (concert pitch)',
+      treble: 'Staff (treble clef)',
+      textStaff: 'Text + staff',
+      tabString: 'TAB (string → fret)',
+      tabFret: 'TAB (fret → string)',
+    },
+    trainingMode: { reading: 'Reading', ear: 'Ear training', interval: 'Intervals', pattern: 'Scales · arpeggios' },
+    patternKind: { scale: 'Scales', arpeggio: 'Arpeggios' },
+    patternOrder: { ordered: 'In order', all: 'Find every position' },
+    intervalKind: { interval: 'Interval above root', degree: 'Scale degree' },
+    intervalReach: { any: 'Any string', same: 'Same string', adjacent: 'Adjacent string' },
+    earReference: { none: 'None', open: 'Open string', drone: 'Drone' },
+    quizMode: { pitch: 'Any', string: 'Given string', window: 'Fret window' },
+    selection: { adaptive: 'Focus on weak spots', shuffle: 'Random' },
+    inputMode: { touch: 'Touch', mic: 'Microphone', midi: 'MIDI' },
+    heatmap: { off: 'Off', errors: 'Error rate', slowness: 'Response time' },
+    gameMode: { free: 'Free practice', timed: '60-second challenge', sprint: '30-note sprint', survival: 'Survival (3 lives)' },
+    readingFormat: { single: 'Single note', sequence: 'Phrase' },
+    spelling: { sharps: '♯', flats: '♭', mixed: 'Mixed', key: 'From key signature' },
+    noteNaming: { letter: 'C D E', solfege: 'Do Re Mi', german: 'C D E … H (German)' },
+  },
+
+  gameModes: { timed: '60-second challenge', sprint: '30-note sprint', survival: 'Survival' },
+  game: {
+    lives: (n) => `${n} lives`,
+    correctCount: (n) => `Correct ${n}`,
+    result: 'Round results',
+    resultOf: (name) => `${name} results`,
+    summary: (correct, wrong, pct) => `Correct ${correct} · Wrong ${wrong} · Accuracy ${pct}%`,
+    thisRound: 'This round',
+    unfinished: 'Not finished',
+    newBest: 'Personal best!',
+    playAgain: 'Play again',
+    personalBests: 'Personal bests',
+    notes: (n) => `${n} notes`,
+  },
+
+  stats: {
+    title: 'Statistics',
+    titleEar: 'Statistics · ear training',
+    titleInterval: 'Statistics · intervals',
+    titlePattern: 'Statistics · scales',
+    empty: 'No data yet',
+    attempts: 'Attempts',
+    accuracy: 'Accuracy',
+    latency: 'Response time (median)',
+    overall: (attempts, pct, latency) => `${attempts} attempts · accuracy ${pct} · response ${latency}`,
+    reset: 'Reset statistics',
+    byString: 'By string',
+    byDay: 'By day',
+    byNote: 'By note',
+  },
+
+  timing: { early: 'Early', onTime: 'On time', late: 'Late' },
+
+  intonation: {
+    title: 'Intonation',
+    cents: (cents) => `${cents > 0 ? '+' : ''}${cents} cents`,
+    summary: (inTunePct, meanAbs, lean) =>
+      `${inTunePct}% in tune · mean ±${meanAbs}¢ · bias ${lean > 0 ? '+' : ''}${lean}¢`,
+    sharp: 'Sharp',
+    flat: 'Flat',
+  },
+
+  shortcuts: {
+    move: 'Move cursor',
+    answer: 'Answer',
+    string: 'Go to string',
+    skip: 'Skip',
+    reveal: 'Show answer',
+    replay: 'Play again',
+    settings: 'Open/close settings',
+  },
+
+  profiles: {
+    title: 'Profile',
+    name: 'Name',
+    create: 'New profile',
+    remove: 'Delete',
+    exportFile: 'Export',
+    importFile: 'Import',
+    importFailed: 'Could not read the profile file',
+    confirmRemove: (name) => `Delete the profile '${name}' and its practice history?`,
+    defaultName: 'Default',
+    numbered: (n) => `Profile ${n}`,
+  },
+
+  pwa: {
+    offlineReady: 'Ready to work offline',
+    updateReady: 'A new version is available',
+    update: 'Update',
+    install: 'Install app',
+    later: 'Later',
+  },
+
+  staff: {
+    bass: (note) => `Bass clef, ${note}`,
+    treble: (note) => `Treble clef, ${note}`,
+    tabString: (n) => `TAB, string ${n}: which fret?`,
+    tabFret: (fret) => `TAB, fret ${fret}: which string?`,
+    phrase: (notes) => `Phrase of ${notes} notes`,
+    phraseAt: (notes, position, note) => `Phrase of ${notes} notes, note ${position}: ${note}`,
+  },
+
+  intervalNames: {
+    bySemitones: ['unison', 'minor 2nd', 'major 2nd', 'minor 3rd', 'major 3rd', 'perfect 4th', '', 'perfect 5th', 'minor 6th', 'major 6th', 'minor 7th', 'major 7th', 'octave'],
+    augmentedFourth: 'augmented 4th',
+    diminishedFifth: 'diminished 5th',
+    semitones: (n) => `${n} semitones`,
+  },
+
+  solfege: { C: 'Do', D: 'Re', E: 'Mi', F: 'Fa', G: 'Sol', A: 'La', B: 'Si' },
+
+  tuningNames: {
+    std4: 'Standard (E-A-D-G)',
+    dropD4: 'Drop D (D-A-D-G)',
+    eb4: 'E♭ standard',
+    dStd4: 'D standard (D-G-C-F)',
+    bead4: 'BEAD (B-E-A-D)',
+    tenor4: 'Tenor (A-D-G-C)',
+    std5: 'Standard (B-E-A-D-G)',
+    dropA5: 'Drop A (A-E-A-D-G)',
+    tenor5: 'Tenor (E-A-D-G-C)',
+    std6: 'Standard (B-E-A-D-G-C)',
+    tenor6: 'Tenor (E-A-D-G-C-F)',
+    std7: 'Standard (F#-B-E-A-D-G-C)',
+    high7: 'High F (B-E-A-D-G-C-F)',
+    std8: 'Standard (F#-B-E-A-D-G-C-F)',
+  },
+
+  patternNames: {
+    major: 'Major (Ionian)',
+    minor: 'Natural minor (Aeolian)',
+    dorian: 'Dorian',
+    phrygian: 'Phrygian',
+    lydian: 'Lydian',
+    mixolydian: 'Mixolydian',
+    locrian: 'Locrian',
+    majorPentatonic: 'Major pentatonic',
+    minorPentatonic: 'Minor pentatonic',
+    maj7: 'maj7 arpeggio',
+    dom7: '7 arpeggio',
+    min7: 'm7 arpeggio',
+    m7b5: 'm7♭5 arpeggio',
+    dim7: 'dim7 arpeggio',
+  },
+}
+
+export default en
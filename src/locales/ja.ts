@@ -0,0 +1,278 @@
+import type { Messages } from './ko'
+
+const ja: Messages = {
+  appTitle: 'ベース指板トレーナー',
+  appShortTitle: '指板クイズ',
+  board: 'ベース指板',
+  settings: '設定',
+  close: '閉じる',
+  none: 'なし',
+  stringNumber: (n) => `${n}弦`,
+  cell: (stringName, fret) => `${stringName}弦 ${fret === 0 ? '開放' : `${fret}フレット`}`,
+  fretRange: (min, max) => `${min}–${max}フレット`,
+  sameString: '同じ弦',
+  adjacentString: '隣の弦',
+  intervalAbove: (root, interval) => `${root}の${interval}上`,
+  degreeOf: (root, degree) => `${root}の${degree}`,
+  newTarget: (label) => `新しい問題: ${label}`,
+  newEarTarget: '新しい問題: 音を聴いて答えてください',
+  correct: '正解',
+  wrong: '不正解',
+  answerAt: (cells) => `正解の位置: ${cells}`,
+  replay: 'もう一度聴く',
+  replayRoot: 'ルートを聴く',
+  linkCopied: 'リンクをコピーしました',
+  micUnavailable: 'マイクを使用できません',
+  midiUnsupported: 'このブラウザーは MIDI に対応していません',
+  midiUnavailable: 'MIDI 機器にアクセスできません',
+  noDevices: '機器なし',
+  samplesLoaded: (n) => `サンプル ${n} 個`,
+  samplesUnnamed: '音名を読み取れるファイルがありません',
+  samplesFailed: 'サンプルを読み込めません',
+  samplesHint: 'ファイル名に音名 (例: E1.wav)',
+  dailyChallenge: '今日のチャレンジ',
+  dailySeed: (date) => `今日のチャレンジ ${date}`,
+  seededShuffle: 'シード使用中はランダム',
+
+  controls: {
+    language: '言語',
+    noteNaming: '音名',
+    stringCount: '弦の数',
+    tuning: 'チューニング',
+    customTuning: 'カスタム',
+    frets: 'フレット',
+    scaleLength: 'スケール (低音 → 高音)',
+    scaleBass: '低音側スケール',
+    scaleTreble: '高音側スケール',
+    perpendicularFret: '垂直フレット',
+    theme: '指板',
+    reducedMotion: '動きを減らす',
+    inlay: 'インレイ',
+    fretless: 'フレットレス',
+    fretLines: 'フレットライン',
+    centsTolerance: '音程の許容',
+    sound: '音を鳴らす',
+    volume: '音量',
+    mute: 'ミュート',
+    sustain: '余韻',
+    feedbackSounds: '正解/不正解の効果音',
+    metronome: 'メトロノーム',
+    signature: '拍子',
+    subdivision: '細分',
+    accent: 'アクセント',
+    groove: '拍に合わせて答える',
+    grooveBeat: '答える拍',
+    grooveWindow: '判定幅',
+    tempoRamp: 'テンポアップ',
+    voice: '音源',
+    tone: 'トーン',
+    pluckPosition: 'ピッキング位置',
+    pluckMute: 'ミュート量',
+    sampleFiles: 'サンプルファイル',
+    problemView: '問題の表示',
+    drillStrings: '練習する弦',
+    drillFrets: '練習するフレット',
+    trainingMode: 'モード',
+    patternKey: 'キー',
+    patternOrder: '順番',
+    intervalKind: '問題',
+    degrees: 'ディグリー',
+    intervals: '音程',
+    intervalReach: '答える位置',
+    earReference: '基準音',
+    quizMode: '位置の制限',
+    quizWindow: '範囲',
+    selection: '出題方法',
+    input: '入力',
+    channelPerString: 'チャンネル=弦',
+    gamepad: 'ゲームパッド',
+    shortcuts: 'ショートカット',
+    octaveTolerant: 'オクターブを無視',
+    heatmap: 'ヒートマップ',
+    game: 'ゲーム',
+    newRound: '新しいラウンド',
+    seed: 'シード',
+    copyLink: 'リンクをコピー',
+    clearSeed: '解除',
+    stats: '統計',
+    readingFormat: '問題形式',
+    measures: '小節',
+    rhythms: 'リズム',
+    rests: '休符',
+    spelling: '表記',
+    keySignature: '調号',
+    sideDots: 'サイドドット',
+    binding: 'バインディング',
+    flipBoth: '上下左右反転',
+  },
+
+  options: {
+    localeAuto: '自動',
+    perpendicularNut: 'ナット',
+    theme: {
+      ebony: 'エボニー',
+      maple: 'メイプル',
+      rosewood: 'ローズウッド',
+      pauferro: 'パーフェロー',
+      contrastDark: 'ハイコントラスト (黒)',
+      contrastLight: 'ハイコントラスト (白)',
+    },
+    inlay: { dot: 'ドット', block: 'ブロック', none: 'なし' },
+    fretLines: { lined: 'あり', unlined: 'なし' },
+    centsTolerance: { 10: '厳しい', 20: '普通', 35: 'ゆるい' },
+    sustain: { ring: 'レットリング (弦ごとに響く)', staccato: 'スタッカート' },
+    subdivision: { 1: 'なし', 2: '8分', 3: '3連', 4: '16分' },
+    grooveWindow: { 50: '厳しい', 90: '普通', 140: 'ゆるい' },
+    voice: { pluck: 'ベースモデル', samples: 'サンプル' },
+    problemView: {
+      text: 'テキスト',
+      staff: '楽譜 (ヘ音記号)',
+      staffConcert: '楽譜 (実音)',
+      treble: '楽譜 (ト音記号)',
+      textStaff: 'テキスト + 楽譜',
+      tabString: 'TAB (弦 → フレット)',
+      tabFret: 'TAB (フレット → 弦)',
+    },
+    trainingMode: { reading: '読譜', ear: '聴音', interval: '音程', pattern: 'スケール · アルペジオ' },
+    patternKind: { scale: 'スケール', arpeggio: 'アルペジオ' },
+    patternOrder: { ordered: '順番に', all: 'すべての位置を探す' },
+    intervalKind: { interval: 'ルートからの音程', degree: 'スケールディグリー' },
+    intervalReach: { any: 'すべての弦', same: '同じ弦', adjacent: '隣の弦' },
+    earReference: { none: 'なし', open: '開放弦', drone: 'ドローン' },
+    quizMode: { pitch: 'なし', string: '弦を指定', window: 'フレット範囲' },
+    selection: { adaptive: '苦手を重点的に', shuffle: 'ランダム' },
+    inputMode: { touch: 'タッチ', mic: 'マイク', midi: 'MIDI' },
+    heatmap: { off: 'オフ', errors: '誤答率', slowness: '反応速度' },
+    gameMode: { free: '自由練習', timed: '60秒チャレンジ', sprint: '30音スプリント', survival: 'サバイバル (ライフ3)' },
+    readingFormat: { single: '単音', sequence: 'フレーズ' },
+    spelling: { sharps: '♯', flats: '♭', mixed: '混合', key: '調号に従う' },
+    noteNaming: { letter: 'C D E', solfege: 'ド レ ミ', german: 'C D E … H (ドイツ式)' },
+  },
+
+  gameModes: { timed: '60秒チャレンジ', sprint: '30音スプリント', survival: 'サバイバル' },
+  game: {
+    lives: (n) => `ライフ ${n}`,
+    correctCount: (n) => `正解 ${n}`,
+    result: 'ラウンド結果',
+    resultOf: (name) => `${name} 結果`,
+    summary: (correct, wrong, pct) => `正解 ${correct} · 不正解 ${wrong} · 正答率 ${pct}%`,
+    thisRound: '今回の記録',
+    unfinished: '未完走',
+    newBest: '自己ベスト!',
+    playAgain: 'もう一度',
+    personalBests: '自己記録',
+    notes: (n) => `${n}個`,
+  },
+
+  stats: {
+    title: '統計',
+    titleEar: '統計 · 聴音',
+    titleInterval: '統計 · 音程',
+    titlePattern: '統計 · スケール',
+    empty: '記録なし',
+    attempts: '回数',
+    accuracy: '正答率',
+    latency: '反応時間 (中央値)',
+    overall: (attempts, pct, latency) => `${attempts}回 · 正答率 ${pct} · 反応 ${latency}`,
+    reset: '記録をリセット',
+    byString: '弦別',
+    byDay: '日付別',
+    byNote: '音別',
+  },
+
+  timing: { early: '早い', onTime: 'ジャスト', late: '遅い' },
+
+  intonation: {
+    title: 'イントネーション',
+    cents: (cents) => `${cents > 0 ? '+' : ''}${cents}セント`,
+    summary: (inTunePct, meanAbs, lean) =>
+      `音程一致 ${inTunePct}% · 平均 ±${meanAbs}セント · 傾向 ${lean > 0 ? '+' : ''}${lean}セント`,
+    sharp: '高い',
+    flat: '低い',
+  },
+
+  shortcuts: {
+    move: 'カーソル移動',
+    answer: '答える',
+    string: '弦を選ぶ',
+    skip: 'スキップ',
+    reveal: '正解を見る',
+    replay: 'もう一度聴く',
+    settings: '設定を開く/閉じる',
+  },
+
+  profiles: {
+    title: 'プロフィール',
+    name: '名前',
+    create: '新しいプロフィール',
+    remove: '削除',
+    exportFile: '書き出し',
+    importFile: '読み込み',
+    importFailed: 'プロフィールファイルを読み込めません',
+    confirmRemove: (name) => `プロフィール「${name}」と練習記録を削除しますか?`,
+    defaultName: 'デフォルト',
+    numbered: (n) => `プロフィール ${n}`,
+  },
+
+  pwa: {
+    offlineReady: 'オフラインでも使えます',
+    updateReady: '新しいバージョンがあります',
+    update: '更新',
+    install: 'アプリをインストール',
+    later: 'あとで',
+  },
+
+  staff: {
+    bass: (note) => `ヘ音記号 ${note}`,
+    treble: (note) => `ト音記号 ${note}`,
+    tabString: (n) => `TAB ${n}弦、フレットは?`,
+    tabFret: (fret) => `TAB ${fret}フレット、弦は?`,
+    phrase: (notes) => `フレーズ ${notes}音`,
+    phraseAt: (notes, position, note) => `フレーズ ${notes}音の${position}音目 ${note}`,
+  },
+
+  intervalNames: {
+    bySemitones: ['完全1度', '短2度', '長2度', '短3度', '長3度', '完全4度', '', '完全5度', '短6度', '長6度', '短7度', '長7度', '完全8度'],
+    augmentedFourth: '増4度',
+    diminishedFifth: '減5度',
+    semitones: (n) => `${n}半音`,
+  },
+
+  solfege: { C: 'ド', D: 'レ', E: 'ミ', F: 'ファ', G: 'ソ', A: 'ラ', B: 'シ' },
+
+  tuningNames: {
+    std4: 'スタンダード (E-A-D-G)',
+    dropD4: 'ドロップ D (D-A-D-G)',
+    eb4: 'E♭ スタンダード',
+    dStd4: 'D スタンダード (D-G-C-F)',
+    bead4: 'BEAD (B-E-A-D)',
+    tenor4: 'テナー (A-D-G-C)',
+    std5: 'スタンダード (B-E-A-D-G)',
+    dropA5: 'ドロップ A (A-E-A-D-G)',
+    tenor5: 'テナー (E-A-D-G-C)',
+    std6: 'スタンダード (B-E-A-D-G-C)',
+    tenor6: 'テナー (E-A-D-G-C-F)',
+    std7: 'スタンダード (F#-B-E-A-D-G-C)',
+    high7: 'ハイ F (B-E-A-D-G-C-F)',
+    std8: 'スタンダード (F#-B-E-A-D-G-C-F)',
+  },
+
+  patternNames: {
+    major: 'メジャー (アイオニアン)',
+    minor: 'ナチュラルマイナー (エオリアン)',
+    dorian: 'ドリアン',
+    phrygian: 'フリジアン',
+    lydian: 'リディアン',
+    mixolydian: 'ミクソリディアン',
+    locrian: 'ロクリアン',
+    majorPentatonic: 'メジャーペンタトニック',
+    minorPentatonic: 'マイナーペンタトニック',
+    maj7: 'maj7 アルペジオ',
+    dom7: '7 アルペジオ',
+    min7: 'm7 アルペジオ',
+    m7b5: 'm7♭5 アルペジオ',
+    dim7: 'dim7 アルペジオ',
+  },
+}
+
+export default ja
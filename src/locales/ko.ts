@@ -0,0 +1,284 @@
+// Korean UI strings; the other catalogs follow this shape (see Messages)
+
+const ko = {
+  appTitle: '베이스 지판 외우기',
+  appShortTitle: '지판퀴즈',
+  board: '베이스 지판',
+  settings: '설정',
+  close: '닫기',
+  none: '없음',
+  stringNumber: (n: number) => `${n}현`,
+  // a cell read aloud, e.g. "A현 5프렛"
+  cell: (stringName: string, fret: number) => `${stringName}현 ${fret === 0 ? '개방' : `${fret}프렛`}`,
+  fretRange: (min: number, max: number) => `${min}–${max}프렛`,
+  sameString: '같은 줄',
+  adjacentString: '인접 줄',
+  intervalAbove: (root: string, interval: string) => `${root} 위 ${interval}`,
+  degreeOf: (root: string, degree: string) => `${root}의 ${degree}`,
+  newTarget: (label: string) => `새 문제: ${label}`,
+  newEarTarget: '새 문제: 소리를 듣고 답하세요',
+  correct: '정답',
+  wrong: '오답',
+  answerAt: (cells: string) => `정답 위치: ${cells}`,
+  replay: '다시 듣기',
+  replayRoot: '루트 듣기',
+  linkCopied: '링크를 복사했습니다',
+  micUnavailable: '마이크를 사용할 수 없습니다',
+  midiUnsupported: '이 브라우저는 MIDI를 지원하지 않습니다',
+  midiUnavailable: 'MIDI 장치에 접근할 수 없습니다',
+  noDevices: '장치 없음',
+  samplesLoaded: (n: number) => `샘플 ${n}개`,
+  samplesUnnamed: '음 이름을 읽을 수 있는 파일이 없습니다',
+  samplesFailed: '샘플을 불러올 수 없습니다',
+  samplesHint: '파일 이름에 음 이름 (예: E1.wav)',
+  dailyChallenge: '오늘의 챌린지',
+  dailySeed: (date: string) => `오늘의 챌린지 ${date}`,
+  seededShuffle: '시드 사용 중에는 무작위',
+
+  controls: {
+    language: '언어',
+    noteNaming: '음 이름',
+    stringCount: '현 수',
+    tuning: '튜닝',
+    customTuning: '사용자 지정',
+    frets: '프렛',
+    scaleLength: '스케일 (저음 → 고음)',
+    scaleBass: '저음 쪽 스케일',
+    scaleTreble: '고음 쪽 스케일',
+    perpendicularFret: '수직 프렛',
+    theme: '지판',
+    reducedMotion: '움직임 줄이기',
+    inlay: '인레이',
+    fretless: '프렛리스',
+    fretLines: '프렛 라인',
+    centsTolerance: '음정 허용',
+    sound: '소리 재생',
+    volume: '음량',
+    mute: '음소거',
+    sustain: '울림',
+    feedbackSounds: '정답/오답 효과음',
+    metronome: '메트로놈',
+    signature: '박자',
+    subdivision: '세분',
+    accent: '강세',
+    groove: '박에 맞춰 답하기',
+    grooveBeat: '답할 박',
+    grooveWindow: '판정 폭',
+    tempoRamp: '템포 상승',
+    voice: '음원',
+    tone: '톤',
+    pluckPosition: '피킹 위치',
+    pluckMute: '뮤트',
+    sampleFiles: '샘플 파일',
+    problemView: '문제 표시',
+    drillStrings: '연습 줄',
+    drillFrets: '연습 프렛',
+    trainingMode: '모드',
+    patternKey: '키',
+    patternOrder: '순서',
+    intervalKind: '문제',
+    degrees: '디그리',
+    intervals: '음정',
+    intervalReach: '답 위치',
+    earReference: '기준음',
+    quizMode: '위치 제한',
+    quizWindow: '구간',
+    selection: '출제 방식',
+    input: '입력',
+    channelPerString: '채널=줄',
+    gamepad: '게임패드',
+    shortcuts: '단축키',
+    octaveTolerant: '옥타브 무시',
+    heatmap: '히트맵',
+    game: '게임',
+    newRound: '새 라운드',
+    seed: '시드',
+    copyLink: '링크 복사',
+    clearSeed: '해제',
+    stats: '통계',
+    readingFormat: '문제 형식',
+    measures: '마디',
+    rhythms: '리듬',
+    rests: '쉼표',
+    spelling: '표기',
+    keySignature: '조표',
+    sideDots: '사이드닷',
+    binding: '바인딩',
+    flipBoth: '상하좌우 반전',
+  },
+
+  options: {
+    localeAuto: '자동',
+    perpendicularNut: '너트',
+    theme: {
+      ebony: '에보니',
+      maple: '메이플',
+      rosewood: '로즈우드',
+      pauferro: '포페로',
+      contrastDark: '고대비 (검정)',
+      contrastLight: '고대비 (흰색)',
+    },
+    inlay: { dot: '닷', block: '블록', none: '없음' },
+    fretLines: { lined: '라인', unlined: '없음' },
+    centsTolerance: { 10: '엄격', 20: '보통', 35: '여유' },
+    sustain: { ring: '렛 링 (줄마다 울림)', staccato: '스타카토' },
+    subdivision: { 1: '없음', 2: '2분할', 3: '셋잇단', 4: '4분할' },
+    grooveWindow: { 50: '엄격', 90: '보통', 140: '여유' },
+    voice: { pluck: '베이스 모델', samples: '샘플' },
+    problemView: {
+      text: '텍스트',
+      staff: '악보 (낮은음자리표)',
+      staffConcert: '악보 (실음)',
+      treble: '악보 (높은음자리표)',
+      textStaff: '텍스트 + 악보',
+      tabString: 'TAB (줄 → 프렛)',
+      tabFret: 'TAB (프렛 → 줄)',
+    },
+    trainingMode: { reading: '읽기', ear: '청음', interval: '음정', pattern: '스케일 · 아르페지오' },
+    patternKind: { scale: '스케일', arpeggio: '아르페지오' },
+    patternOrder: { ordered: '차례대로', all: '모든 위치 찾기' },
+    intervalKind: { interval: '루트 위 음정', degree: '스케일 디그리' },
+    intervalReach: { any: '모든 줄', same: '같은 줄', adjacent: '인접 줄' },
+    earReference: { none: '없음', open: '개방현', drone: '드론' },
+    quizMode: { pitch: '없음', string: '줄 지정', window: '프렛 구간' },
+    selection: { adaptive: '약점 위주', shuffle: '무작위' },
+    inputMode: { touch: '터치', mic: '마이크', midi: 'MIDI' },
+    heatmap: { off: '끔', errors: '오답률', slowness: '반응 속도' },
+    gameMode: { free: '자유 연습', timed: '60초 챌린지', sprint: '30음 스프린트', survival: '서바이벌 (3목숨)' },
+    readingFormat: { single: '한 음', sequence: '악구' },
+    spelling: { sharps: '♯', flats: '♭', mixed: '혼합', key: '조표 기준' },
+    noteNaming: { letter: 'C D E', solfege: '도 레 미', german: 'C D E … H (독일식)' },
+  },
+
+  // round names in the HUD and the summary
+  gameModes: { timed: '60초 챌린지', sprint: '30음 스프린트', survival: '서바이벌' },
+  game: {
+    lives: (n: number) => `목숨 ${n}`,
+    correctCount: (n: number) => `정답 ${n}`,
+    result: '라운드 결과',
+    resultOf: (name: string) => `${name} 결과`,
+    summary: (correct: number, wrong: number, pct: number) => `정답 ${correct} · 오답 ${wrong} · 정답률 ${pct}%`,
+    thisRound: '이번 기록',
+    unfinished: '미완주',
+    newBest: '개인 최고 기록!',
+    playAgain: '다시 하기',
+    personalBests: '개인 기록',
+    notes: (n: number) => `${n}개`,
+  },
+
+  stats: {
+    title: '통계',
+    titleEar: '통계 · 청음',
+    titleInterval: '통계 · 음정',
+    titlePattern: '통계 · 스케일',
+    empty: '기록 없음',
+    attempts: '시도',
+    accuracy: '정답률',
+    latency: '반응 시간(중앙값)',
+    overall: (attempts: number, pct: string, latency: string) => `${attempts}회 · 정답률 ${pct} · 반응 ${latency}`,
+    reset: '기록 초기화',
+    byString: '줄별',
+    byDay: '날짜별',
+    byNote: '음별',
+  },
+
+  timing: { early: '빠름', onTime: '정박', late: '느림' },
+
+  // fretless pitch, in cents off the nearest semitone
+  intonation: {
+    title: '인토네이션',
+    cents: (cents: number) => `${cents > 0 ? '+' : ''}${cents}센트`,
+    summary: (inTunePct: number, meanAbs: number, lean: number) =>
+      `음정 맞음 ${inTunePct}% · 평균 ±${meanAbs}센트 · 치우침 ${lean > 0 ? '+' : ''}${lean}센트`,
+    sharp: '높음',
+    flat: '낮음',
+  },
+
+  shortcuts: {
+    move: '커서 이동',
+    answer: '답하기',
+    string: '줄 선택',
+    skip: '건너뛰기',
+    reveal: '정답 보기',
+    replay: '다시 듣기',
+    settings: '설정 열기/닫기',
+  },
+
+  // what the staff / TAB drawing asks, for screen readers
+  profiles: {
+    title: '프로필',
+    name: '이름',
+    create: '새 프로필',
+    remove: '삭제',
+    exportFile: '내보내기',
+    importFile: '가져오기',
+    importFailed: '프로필 파일을 읽을 수 없습니다',
+    confirmRemove: (name: string) => `'${name}' 프로필과 연습 기록을 삭제할까요?`,
+    defaultName: '기본',
+    numbered: (n: number) => `프로필 ${n}`,
+  },
+
+  pwa: {
+    offlineReady: '오프라인에서도 사용할 수 있습니다',
+    updateReady: '새 버전이 있습니다',
+    update: '업데이트',
+    install: '앱 설치',
+    later: '나중에',
+  },
+
+  staff: {
+    bass: (note: string) => `낮은음자리표 ${note}`,
+    treble: (note: string) => `높은음자리표 ${note}`,
+    tabString: (n: number) => `TAB ${n}번 줄, 프렛은?`,
+    tabFret: (fret: number) => `TAB ${fret}프렛, 줄은?`,
+    phrase: (notes: number) => `악구 ${notes}음`,
+    phraseAt: (notes: number, position: number, note: string) => `악구 ${notes}음 중 ${position}번째 음 ${note}`,
+  },
+
+  intervalNames: {
+    bySemitones: ['완전1도', '단2도', '장2도', '단3도', '장3도', '완전4도', '', '완전5도', '단6도', '장6도', '단7도', '장7도', '완전8도'],
+    augmentedFourth: '증4도',
+    diminishedFifth: '감5도',
+    semitones: (n: number) => `${n}반음`,
+  },
+
+  solfege: { C: '도', D: '레', E: '미', F: '파', G: '솔', A: '라', B: '시' },
+
+  tuningNames: {
+    std4: '스탠다드 (E-A-D-G)',
+    dropD4: '드롭 D (D-A-D-G)',
+    eb4: 'E♭ 스탠다드',
+    dStd4: 'D 스탠다드 (D-G-C-F)',
+    bead4: 'BEAD (B-E-A-D)',
+    tenor4: '테너 (A-D-G-C)',
+    std5: '스탠다드 (B-E-A-D-G)',
+    dropA5: '드롭 A (A-E-A-D-G)',
+    tenor5: '테너 (E-A-D-G-C)',
+    std6: '스탠다드 (B-E-A-D-G-C)',
+    tenor6: '테너 (E-A-D-G-C-F)',
+    std7: '스탠다드 (F#-B-E-A-D-G-C)',
+    high7: '하이 F (B-E-A-D-G-C-F)',
+    std8: '스탠다드 (F#-B-E-A-D-G-C-F)',
+  },
+
+  patternNames: {
+    major: '메이저 (이오니안)',
+    minor: '내추럴 마이너 (에올리안)',
+    dorian: '도리안',
+    phrygian: '프리지안',
+    lydian: '리디안',
+    mixolydian: '믹솔리디안',
+    locrian: '로크리안',
+    majorPentatonic: '메이저 펜타토닉',
+    minorPentatonic: '마이너 펜타토닉',
+    maj7: 'maj7 아르페지오',
+    dom7: '7 아르페지오',
+    min7: 'm7 아르페지오',
+    m7b5: 'm7♭5 아르페지오',
+    dim7: 'dim7 아르페지오',
+  },
+}
+
+export type Messages = typeof ko
+
+export default ko
@@ -0,0 +1,183 @@
+import type { AudioEngine } from './audio'
+
+export type TimeSignature = { beats: number; unit: 4 | 8 }
+export type Subdivision = 1 | 2 | 3 | 4
+
+export type MetronomeSettings = {
+  bpm: number // beats (of the signature's unit) per minute
+  signature: TimeSignature
+  subdivision: Subdivision // clicks per beat
+  accent: boolean // louder, higher click on the downbeat
+}
+
+export const TIME_SIGNATURES: TimeSignature[] = [
+  { beats: 2, unit: 4 },
+  { beats: 3, unit: 4 },
+  { beats: 4, unit: 4 },
+  { beats: 5, unit: 4 },
+  { beats: 6, unit: 8 },
+  { beats: 7, unit: 8 },
+]
+
+export const MIN_BPM = 30
+export const MAX_BPM = 240
+export const DEFAULT_METRONOME: MetronomeSettings = { bpm: 80, signature: { beats: 4, unit: 4 }, subdivision: 1, accent: true }
+
+// Beat grid in context time: beat `anchorBeat` falls at `anchorTime`; tempo
+// changes re-anchor so the grid stays continuous
+export type Grid = { anchorTime: number; anchorBeat: number; bpm: number }
+
+export type Click = {
+  time: number
+  beat: number // beat count since start
+  sub: number // 0 = on the beat
+  accent: boolean
+}
+
+export function beatSeconds(bpm: number): number {
+  return 60 / bpm
+}
+
+export function beatTime(grid: Grid, beat: number): number {
+  return grid.anchorTime + (beat - grid.anchorBeat) * beatSeconds(grid.bpm)
+}
+
+// Fractional beat count at a context time
+export function beatAt(grid: Grid, time: number): number {
+  return grid.anchorBeat + (time - grid.anchorTime) / beatSeconds(grid.bpm)
+}
+
+// Clicks in [from, to), beats and subdivisions alike
+export function clicksBetween(grid: Grid, from: number, to: number, settings: MetronomeSettings): Click[] {
+  const out: Click[] = []
+  const beatLen = beatSeconds(grid.bpm)
+  const subLen = beatLen / settings.subdivision
+  let beat = Math.max(grid.anchorBeat, Math.floor(beatAt(grid, from)))
+  for (; beatTime(grid, beat) < to; beat += 1) {
+    for (let sub = 0; sub < settings.subdivision; sub += 1) {
+      const time = beatTime(grid, beat) + sub * subLen
+      if (time < from || time >= to) continue
+      out.push({ time, beat, sub, accent: settings.accent && sub === 0 && beat % settings.signature.beats === 0 })
+    }
+  }
+  return out
+}
+
+// Context time of the next `beatInBar` (0-based) at least `minLeadBeats` after `after`
+export function dueTime(grid: Grid, beatsPerBar: number, beatInBar: number, after: number, minLeadBeats = 1): number {
+  let beat = Math.ceil(beatAt(grid, after) + minLeadBeats - 1e-9)
+  while (((beat % beatsPerBar) + beatsPerBar) % beatsPerBar !== beatInBar) beat += 1
+  return beatTime(grid, beat)
+}
+
+// early / on time / late against a window of ± windowMs
+export type Timing = 'early' | 'onTime' | 'late'
+
+export function judgeTiming(offsetSec: number, windowMs: number): Timing {
+  const ms = offsetSec * 1000
+  if (ms < -windowMs) return 'early'
+  if (ms > windowMs) return 'late'
+  return 'onTime'
+}
+
+// Tempo ramp: speed up after every `every` on-time answers in a row
+export type TempoRamp = { every: number; step: number; max: number }
+
+export const DEFAULT_RAMP: TempoRamp = { every: 8, step: 4, max: 200 }
+
+export function rampedBpm(bpm: number, streak: number, ramp: TempoRamp = DEFAULT_RAMP): number {
+  if (streak === 0 || streak % ramp.every !== 0) return bpm
+  return Math.min(ramp.max, bpm + ramp.step)
+}
+
+const LOOKAHEAD_S = 0.12
+const TICK_MS = 25
+
+// Clicks scheduled ahead on the engine's context (sample-accurate), with
+// callbacks per beat for anything that should follow the pulse
+export class Metronome {
+  private engine: AudioEngine
+  private settings: MetronomeSettings = DEFAULT_METRONOME
+  private grid: Grid | null = null
+  private scheduledUntil = 0
+  private timer: number | null = null
+  private listeners = new Set<(click: Click) => void>()
+
+  constructor(engine: AudioEngine) {
+    this.engine = engine
+  }
+
+  get running(): boolean {
+    return this.grid != null
+  }
+
+  getGrid(): Grid | null {
+    return this.grid
+  }
+
+  getSettings(): MetronomeSettings {
+    return this.settings
+  }
+
+  // Called at scheduling time with the click's context time (ahead of the sound)
+  onClick(listener: (click: Click) => void): () => void {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
+  }
+
+  // `at` is the context time of the first downbeat; live playback keeps scheduling on a timer,
+  // offline rendering calls scheduleUntil itself
+  start(settings: MetronomeSettings, at?: number, live = true) {
+    this.stop()
+    const ctx = this.engine.getContext()
+    this.settings = settings
+    const t0 = at ?? ctx.currentTime + 0.1
+    this.grid = { anchorTime: t0, anchorBeat: 0, bpm: settings.bpm }
+    this.scheduledUntil = t0
+    if (live) {
+      this.timer = window.setInterval(() => this.scheduleUntil(ctx.currentTime + LOOKAHEAD_S), TICK_MS)
+      this.scheduleUntil(ctx.currentTime + LOOKAHEAD_S)
+    }
+  }
+
+  stop() {
+    if (this.timer != null) window.clearInterval(this.timer)
+    this.timer = null
+    this.grid = null
+  }
+
+  // New settings take effect from the next unscheduled beat
+  update(settings: MetronomeSettings) {
+    const grid = this.grid
+    this.settings = settings
+    if (!grid || grid.bpm === settings.bpm) return
+    const nextBeat = Math.ceil(beatAt(grid, this.scheduledUntil) - 1e-9)
+    this.grid = { anchorTime: beatTime(grid, nextBeat), anchorBeat: nextBeat, bpm: settings.bpm }
+  }
+
+  scheduleUntil(time: number) {
+    const grid = this.grid
+    if (!grid || time <= this.scheduledUntil) return
+    for (const c of clicksBetween(grid, this.scheduledUntil, time, this.settings)) {
+      this.click(c)
+      this.listeners.forEach((l) => l(c))
+    }
+    this.scheduledUntil = time
+  }
+
+  private click(c: Click) {
+    const ctx = this.engine.getContext()
+    const osc = ctx.createOscillator()
+    const gain = ctx.createGain()
+    osc.type = 'sine'
+    osc.frequency.value = c.accent ? 1760 : c.sub === 0 ? 1320 : 880
+    const level = c.accent ? 0.5 : c.sub === 0 ? 0.35 : 0.18
+    gain.gain.setValueAtTime(0, c.time)
+    gain.gain.linearRampToValueAtTime(level, c.time + 0.002)
+    gain.gain.exponentialRampToValueAtTime(0.0001, c.time + 0.04)
+    osc.connect(gain)
+    gain.connect(this.engine.getOutput())
+    osc.start(c.time)
+    osc.stop(c.time + 0.05)
+  }
+}
@@ -0,0 +1,90 @@
+// Web MIDI note input. Works against small structural types so it can be
+// driven by a fake MIDIAccess as well as the browser's.
+import type { Target } from './quiz'
+import type { Tuning } from './tuning'
+
+export type MidiNoteOn = {
+  channel: number // 0..15
+  note: number
+  velocity: number
+}
+
+export type MidiMessageLike = { data: Uint8Array | null }
+
+export type MidiInputLike = {
+  id: string
+  name?: string | null
+  addEventListener(type: 'midimessage', listener: (e: MidiMessageLike) => void): void
+  removeEventListener(type: 'midimessage', listener: (e: MidiMessageLike) => void): void
+}
+
+export type MidiAccessLike = {
+  inputs: { forEach(cb: (input: MidiInputLike) => void): void }
+  addEventListener(type: 'statechange', listener: () => void): void
+  removeEventListener(type: 'statechange', listener: () => void): void
+}
+
+// One channel per string, as used by bass/guitar MIDI converters.
+// highFirst: firstChannel carries the highest string (the usual converter layout)
+export type ChannelMapping = {
+  firstChannel: number // 0-based
+  order: 'highFirst' | 'lowFirst'
+}
+
+export const DEFAULT_CHANNEL_MAPPING: ChannelMapping = { firstChannel: 0, order: 'highFirst' }
+
+// Note-on with non-zero velocity; everything else (including running status) is ignored
+export function parseMidiMessage(data: ArrayLike<number> | null): MidiNoteOn | null {
+  if (!data || data.length < 3) return null
+  const status = data[0] & 0xf0
+  const velocity = data[2] & 0x7f
+  if (status !== 0x90 || velocity === 0) return null
+  return { channel: data[0] & 0x0f, note: data[1] & 0x7f, velocity }
+}
+
+// String and fret from the channel, or null if the note cannot sit on that string
+export function inferPosition(msg: MidiNoteOn, tuning: Tuning, frets: number, mapping = DEFAULT_CHANNEL_MAPPING): Target | null {
+  const offset = msg.channel - mapping.firstChannel
+  if (offset < 0 || offset >= tuning.length) return null
+  const stringIndex = mapping.order === 'highFirst' ? tuning.length - 1 - offset : offset
+  const fret = msg.note - tuning[stringIndex]
+  if (fret < 0 || fret > frets) return null
+  return { stringIndex, fret }
+}
+
+// Listen to every current and future input; returns a disconnect function
+export function connectMidiInputs(
+  access: MidiAccessLike,
+  onNote: (msg: MidiNoteOn, input: MidiInputLike) => void,
+  onInputsChange?: (inputs: MidiInputLike[]) => void,
+): () => void {
+  const attached = new Map<string, { input: MidiInputLike; listener: (e: MidiMessageLike) => void }>()
+  const sync = () => {
+    const seen = new Set<string>()
+    const list: MidiInputLike[] = []
+    access.inputs.forEach((input) => {
+      seen.add(input.id)
+      list.push(input)
+      if (attached.has(input.id)) return
+      const listener = (e: MidiMessageLike) => {
+        const msg = parseMidiMessage(e.data)
+        if (msg) onNote(msg, input)
+      }
+      input.addEventListener('midimessage', listener)
+      attached.set(input.id, { input, listener })
+    })
+    attached.forEach(({ input, listener }, id) => {
+      if (seen.has(id)) return
+      input.removeEventListener('midimessage', listener)
+      attached.delete(id)
+    })
+    onInputsChange?.(list)
+  }
+  sync()
+  access.addEventListener('statechange', sync)
+  return () => {
+    access.removeEventListener('statechange', sync)
+    attached.forEach(({ input, listener }) => input.removeEventListener('midimessage', listener))
+    attached.clear()
+  }
+}
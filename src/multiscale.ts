@@ -0,0 +1,64 @@
+// Multiscale (fanned-fret) board geometry. Each string's scale length is
+// interpolated between the bass and treble sides, and one fret is perpendicular
+// to the strings. Fret distance is linear in scale length, so every fret,
+// and the nut, is a straight slanted line across the board.
+import { fretDistance, positionAt } from './fretless'
+
+export const SCALE_LENGTHS = [30, 32, 33, 34, 35, 35.5, 36, 37] as const // inches
+export const PERPENDICULAR_FRETS = [0, 5, 7, 8, 9, 12] as const // 0 = the nut
+
+export type ScaleLengths = {
+  bass: number
+  treble: number
+  perpendicular: number // fret square to the strings
+}
+
+export type Point = { x: number; y: number }
+
+// Board x of fret positions across the strings; `side` runs from 0 at the bass
+// string to 1 at the treble string and may go beyond either for the board edges
+export type FanGeometry = {
+  x: (position: number, side: number) => number
+  position: (x: number, side: number) => number // inverse of x
+}
+
+// Frets 0..`frets` fitted between `left` and `right` on the longest side
+export function fanGeometry(scales: ScaleLengths, frets: number, left: number, right: number): FanGeometry {
+  const perpendicular = Math.min(scales.perpendicular, frets)
+  const longest = Math.max(scales.bass, scales.treble)
+  const start = fretDistance(perpendicular, longest) // nut furthest left of the perpendicular fret
+  const k = (right - left) / fretDistance(frets, longest)
+  const scaleAt = (side: number) => scales.bass + (scales.treble - scales.bass) * side
+  // px left of the board start for the perpendicular fret, the same on every string
+  const anchor = left + start * k
+  return {
+    x: (position, side) => {
+      const scale = scaleAt(side)
+      return anchor + (fretDistance(position, scale) - fretDistance(perpendicular, scale)) * k
+    },
+    position: (x, side) => {
+      const scale = scaleAt(side)
+      return positionAt((x - anchor) / k + fretDistance(perpendicular, scale), scale)
+    },
+  }
+}
+
+export function isFanned(scales: ScaleLengths): boolean {
+  return scales.bass !== scales.treble
+}
+
+// Even-odd ray cast; points on an edge may fall either side
+export function pointInPolygon(p: Point, polygon: readonly Point[]): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside
+  }
+  return inside
+}
+
+// SVG `points` attribute
+export function polygonPoints(polygon: readonly Point[]): string {
+  return polygon.map((p) => `${p.x},${p.y}`).join(' ')
+}
@@ -0,0 +1,33 @@
+import { LETTERS, type SpelledNote } from './notes'
+
+// Staff setups for the problem view.
+// bass8vb: bass clef written an octave up (the usual bass part convention)
+// bassConcert: bass clef at sounding pitch
+// treble: treble clef written two octaves up, for lead-sheet readers
+export type ClefNotation = 'bass8vb' | 'bassConcert' | 'treble'
+
+export type ClefSetup = {
+  clef: 'bass' | 'treble'
+  transpose: number // semitones from sounding to written pitch
+  label?: string // octave marking drawn below the stave
+  stemDownFrom: number // staff step (octave * 7 + letter index) from which stems point down
+}
+
+function staffStepOf(letter: SpelledNote['letter'], octave: number): number {
+  return octave * 7 + LETTERS.indexOf(letter)
+}
+
+export const CLEF_SETUPS: Record<ClefNotation, ClefSetup> = {
+  bass8vb: { clef: 'bass', transpose: 12, stemDownFrom: staffStepOf('E', 3) },
+  bassConcert: { clef: 'bass', transpose: 0, stemDownFrom: staffStepOf('E', 3) },
+  treble: { clef: 'treble', transpose: 24, label: '15mb', stemDownFrom: staffStepOf('C', 5) },
+}
+
+export function staffStep(note: SpelledNote): number {
+  return staffStepOf(note.letter, note.octave)
+}
+
+// Rest placement on the middle line of the clef
+export function restKey(setup: ClefSetup): string {
+  return setup.clef === 'treble' ? 'b/4' : 'd/3'
+}
@@ -0,0 +1,152 @@
+// Note spelling shared by the text banner and the staff rendering
+
+export const NOTE_NAMES_SHARP = ['C','C#','D','D#','E','F','F#','G','G#','A','A#','B'] as const
+
+export type Letter = 'C' | 'D' | 'E' | 'F' | 'G' | 'A' | 'B'
+export type Accidental = '' | '#' | 'b'
+
+// sharps: C# D# F# G# A#
+// flats: Db Eb Gb Ab Bb
+// mixed: the common choice per black key (C# Eb F# Ab Bb)
+// key: follow the chosen key signature (diatonic notes get the key's spelling)
+export type SpellingPreference = 'sharps' | 'flats' | 'mixed' | 'key'
+
+export type SpelledNote = {
+  letter: Letter
+  accidental: Accidental
+  octave: number
+}
+
+export type KeySignature = {
+  fifths: number // -7 (Cb) .. +7 (C#); negative = flats
+  name: string // major key, VexFlow key-signature spec
+}
+
+export const LETTERS: Letter[] = ['C', 'D', 'E', 'F', 'G', 'A', 'B']
+export const LETTER_PCS: Record<Letter, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 }
+const SHARP_ORDER: Letter[] = ['F', 'C', 'G', 'D', 'A', 'E', 'B']
+const FLAT_ORDER: Letter[] = ['B', 'E', 'A', 'D', 'G', 'C', 'F']
+
+export const KEY_SIGNATURES: KeySignature[] = [
+  { fifths: -7, name: 'Cb' },
+  { fifths: -6, name: 'Gb' },
+  { fifths: -5, name: 'Db' },
+  { fifths: -4, name: 'Ab' },
+  { fifths: -3, name: 'Eb' },
+  { fifths: -2, name: 'Bb' },
+  { fifths: -1, name: 'F' },
+  { fifths: 0, name: 'C' },
+  { fifths: 1, name: 'G' },
+  { fifths: 2, name: 'D' },
+  { fifths: 3, name: 'A' },
+  { fifths: 4, name: 'E' },
+  { fifths: 5, name: 'B' },
+  { fifths: 6, name: 'F#' },
+  { fifths: 7, name: 'C#' },
+]
+
+export function keySignature(fifths: number): KeySignature {
+  return KEY_SIGNATURES.find((k) => k.fifths === fifths) ?? KEY_SIGNATURES[7]
+}
+
+function alterOf(acc: Accidental): number {
+  return acc === '#' ? 1 : acc === 'b' ? -1 : 0
+}
+
+function pitchClass(midi: number): number {
+  return ((midi % 12) + 12) % 12
+}
+
+// Accidental the key signature applies to a letter
+export function keyAccidental(letter: Letter, fifths: number): Accidental {
+  if (fifths > 0 && SHARP_ORDER.slice(0, fifths).includes(letter)) return '#'
+  if (fifths < 0 && FLAT_ORDER.slice(0, -fifths).includes(letter)) return 'b'
+  return ''
+}
+
+function spelled(midi: number, letter: Letter, accidental: Accidental): SpelledNote {
+  // octave follows the letter, so Cb4 is MIDI 59 and B#3 is MIDI 60
+  const natural = midi - alterOf(accidental)
+  return { letter, accidental, octave: Math.floor(natural / 12) - 1 }
+}
+
+function spellSimple(midi: number, useFlats: boolean): SpelledNote {
+  const pc = pitchClass(midi)
+  const natural = LETTERS.find((l) => LETTER_PCS[l] === pc)
+  if (natural) return spelled(midi, natural, '')
+  if (useFlats) return spelled(midi, LETTERS.find((l) => LETTER_PCS[l] === pc + 1)!, 'b')
+  return spelled(midi, LETTERS.find((l) => LETTER_PCS[l] === pc - 1)!, '#')
+}
+
+const MIXED_FLATS = new Set([3, 8, 10]) // Eb Ab Bb
+
+export function spellMidi(midi: number, preference: SpellingPreference = 'sharps', fifths = 0): SpelledNote {
+  switch (preference) {
+    case 'flats':
+      return spellSimple(midi, true)
+    case 'mixed':
+      return spellSimple(midi, MIXED_FLATS.has(pitchClass(midi)))
+    case 'key': {
+      const pc = pitchClass(midi)
+      const diatonic = LETTERS.find((l) => pitchClass(LETTER_PCS[l] + alterOf(keyAccidental(l, fifths))) === pc)
+      if (diatonic) return spelled(midi, diatonic, keyAccidental(diatonic, fifths))
+      return spellSimple(midi, fifths < 0)
+    }
+    default:
+      return spellSimple(midi, false)
+  }
+}
+
+const ACCIDENTAL_SYMBOLS: Record<Accidental, string> = { '': '', '#': '♯', b: '♭' }
+
+// letter: C♯; solfege: fixed do, syllables per language (Do♯, 도♯, ド♯);
+// german: Cis, Es, B for B♭ and H for B
+export type NoteNaming = 'letter' | 'solfege' | 'german'
+export type NoteNames = { naming: NoteNaming; solfege: Record<Letter, string> }
+
+export const SOLFEGE_LATIN: Record<Letter, string> = { C: 'Do', D: 'Re', E: 'Mi', F: 'Fa', G: 'Sol', A: 'La', B: 'Si' }
+export const LETTER_NAMES: NoteNames = { naming: 'letter', solfege: SOLFEGE_LATIN }
+
+function germanName(note: SpelledNote): string {
+  const base = note.letter === 'B' ? 'H' : note.letter
+  if (note.accidental === '#') return `${base}is`
+  if (note.accidental === '') return base
+  if (note.letter === 'B') return 'B'
+  // vowels contract: Es, As
+  return note.letter === 'E' || note.letter === 'A' ? `${base}s` : `${base}es`
+}
+
+export function formatNote(note: SpelledNote, withOctave = true, names: NoteNames = LETTER_NAMES): string {
+  const octave = withOctave ? note.octave : ''
+  if (names.naming === 'german') return `${germanName(note)}${octave}`
+  const base = names.naming === 'solfege' ? names.solfege[note.letter] : note.letter
+  return `${base}${ACCIDENTAL_SYMBOLS[note.accidental]}${octave}`
+}
+
+export function midiToNameOctave(
+  midi: number,
+  preference: SpellingPreference = 'sharps',
+  fifths = 0,
+  names: NoteNames = LETTER_NAMES,
+): string {
+  return formatNote(spellMidi(midi, preference, fifths), true, names)
+}
+
+// VexFlow key string, e.g. "bb/2"
+export function toVexKey(note: SpelledNote): string {
+  return `${note.letter.toLowerCase()}${note.accidental}/${note.octave}`
+}
+
+// Accidentals to draw for notes in one measure under a key signature:
+// only where the spelled note differs from what the key (or an earlier
+// accidental on the same line and octave) already implies; 'n' = natural sign
+export function staffAccidentals(notes: SpelledNote[], fifths: number): ('' | '#' | 'b' | 'n')[] {
+  const inEffect = new Map<string, Accidental>()
+  return notes.map((n) => {
+    const slot = `${n.letter}${n.octave}`
+    const current = inEffect.get(slot) ?? keyAccidental(n.letter, fifths)
+    if (current === n.accidental) return ''
+    inEffect.set(slot, n.accidental)
+    return n.accidental === '' ? 'n' : n.accidental
+  })
+}
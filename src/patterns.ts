@@ -0,0 +1,126 @@
+import type { Tuning } from './tuning'
+import { midiAt, type DrillRegion, type Target } from './quiz'
+import { cellKey } from './scheduler'
+
+export type PatternKind = 'scale' | 'arpeggio'
+
+export type PatternDef = {
+  id: string
+  kind: PatternKind
+  intervals: number[] // semitones above the root, ascending
+  degrees: string[] // label per interval
+}
+
+// ordered: play the shape from the lowest root upward, one note at a time
+// all: find every cell of the shape inside the practice area, in any order
+export type PatternOrder = 'ordered' | 'all'
+
+export const PATTERNS: PatternDef[] = [
+  { id: 'major', kind: 'scale', intervals: [0, 2, 4, 5, 7, 9, 11], degrees: ['1', '2', '3', '4', '5', '6', '7'] },
+  { id: 'minor', kind: 'scale', intervals: [0, 2, 3, 5, 7, 8, 10], degrees: ['1', '2', '♭3', '4', '5', '♭6', '♭7'] },
+  { id: 'dorian', kind: 'scale', intervals: [0, 2, 3, 5, 7, 9, 10], degrees: ['1', '2', '♭3', '4', '5', '6', '♭7'] },
+  { id: 'phrygian', kind: 'scale', intervals: [0, 1, 3, 5, 7, 8, 10], degrees: ['1', '♭2', '♭3', '4', '5', '♭6', '♭7'] },
+  { id: 'lydian', kind: 'scale', intervals: [0, 2, 4, 6, 7, 9, 11], degrees: ['1', '2', '3', '♯4', '5', '6', '7'] },
+  { id: 'mixolydian', kind: 'scale', intervals: [0, 2, 4, 5, 7, 9, 10], degrees: ['1', '2', '3', '4', '5', '6', '♭7'] },
+  { id: 'locrian', kind: 'scale', intervals: [0, 1, 3, 5, 6, 8, 10], degrees: ['1', '♭2', '♭3', '4', '♭5', '♭6', '♭7'] },
+  { id: 'majorPentatonic', kind: 'scale', intervals: [0, 2, 4, 7, 9], degrees: ['1', '2', '3', '5', '6'] },
+  { id: 'minorPentatonic', kind: 'scale', intervals: [0, 3, 5, 7, 10], degrees: ['1', '♭3', '4', '5', '♭7'] },
+  { id: 'maj7', kind: 'arpeggio', intervals: [0, 4, 7, 11], degrees: ['1', '3', '5', '7'] },
+  { id: 'dom7', kind: 'arpeggio', intervals: [0, 4, 7, 10], degrees: ['1', '3', '5', '♭7'] },
+  { id: 'min7', kind: 'arpeggio', intervals: [0, 3, 7, 10], degrees: ['1', '♭3', '5', '♭7'] },
+  { id: 'm7b5', kind: 'arpeggio', intervals: [0, 3, 6, 10], degrees: ['1', '♭3', '♭5', '♭7'] },
+  { id: 'dim7', kind: 'arpeggio', intervals: [0, 3, 6, 9], degrees: ['1', '♭3', '♭5', '𝄫7'] },
+]
+
+export function findPattern(id: string): PatternDef {
+  return PATTERNS.find((p) => p.id === id) ?? PATTERNS[0]
+}
+
+// Progress through one shape in the practice area
+export type PatternState = {
+  root: number // pitch class 0..11
+  def: PatternDef
+  order: PatternOrder
+  cells: Target[] // every cell of the shape, low to high pitch
+  sequence: number[] // ordered: pitches to play, lowest root upward
+  index: number // ordered: next pitch in `sequence`
+  found: string[] // cellKeys answered so far
+}
+
+function pitchClass(midi: number): number {
+  return ((midi % 12) + 12) % 12
+}
+
+// Degree label of a pitch in the shape, or null when it is not part of it
+export function degreeOf(def: PatternDef, root: number, midi: number): string | null {
+  const k = def.intervals.indexOf(pitchClass(midi - root))
+  return k === -1 ? null : def.degrees[k]
+}
+
+export function createPatternState(
+  tuning: Tuning,
+  region: DrillRegion,
+  root: number,
+  def: PatternDef,
+  order: PatternOrder,
+): PatternState | null {
+  const cells: Target[] = []
+  for (const stringIndex of region.strings) {
+    for (let fret = region.frets.min; fret <= region.frets.max; fret += 1) {
+      const t = { stringIndex, fret }
+      if (degreeOf(def, root, midiAt(tuning, t)) != null) cells.push(t)
+    }
+  }
+  if (cells.length === 0) return null
+  cells.sort((a, b) => midiAt(tuning, a) - midiAt(tuning, b) || a.stringIndex - b.stringIndex)
+  // from the lowest root to the highest one; the whole range when it holds a single root
+  const pitches = Array.from(new Set(cells.map((t) => midiAt(tuning, t))))
+  const roots = pitches.filter((m) => pitchClass(m - root) === 0)
+  const start = roots.length ? pitches.indexOf(roots[0]) : 0
+  const end = roots.length > 1 ? pitches.indexOf(roots[roots.length - 1]) : pitches.length - 1
+  return { root, def, order, cells, sequence: pitches.slice(start, end + 1), index: 0, found: [] }
+}
+
+export function isPatternComplete(state: PatternState): boolean {
+  return state.order === 'ordered' ? state.index >= state.sequence.length : state.found.length >= state.cells.length
+}
+
+// Pitch being asked for: the next in order, or any cell still to find
+export function patternTargetMidi(state: PatternState, tuning: Tuning): number | null {
+  if (state.order === 'ordered') return state.sequence[state.index] ?? null
+  const rest = state.cells.find((t) => !state.found.includes(cellKey(t.stringIndex, t.fret)))
+  return rest ? midiAt(tuning, rest) : null
+}
+
+function matches(a: number, b: number, ignoreOctave: boolean): boolean {
+  return ignoreOctave ? pitchClass(a) === pitchClass(b) : a === b
+}
+
+// Apply an answer: the advanced state, the same state for a cell already
+// found, or null when the answer is wrong
+export function answerPattern(
+  state: PatternState,
+  tuning: Tuning,
+  midi: number,
+  hit: Target | null,
+  ignoreOctave = false,
+): PatternState | null {
+  const open = state.cells.filter((t) => !state.found.includes(cellKey(t.stringIndex, t.fret)))
+  if (state.order === 'ordered') {
+    const expected = state.sequence[state.index]
+    if (expected == null || !matches(midi, expected, ignoreOctave)) return null
+    const cell = hit ?? open.find((t) => midiAt(tuning, t) === expected) ?? null
+    const found = cell ? [...state.found, cellKey(cell.stringIndex, cell.fret)] : state.found
+    return { ...state, index: state.index + 1, found: Array.from(new Set(found)) }
+  }
+  if (hit) {
+    const key = cellKey(hit.stringIndex, hit.fret)
+    if (state.found.includes(key)) return state
+    if (!state.cells.some((t) => t.stringIndex === hit.stringIndex && t.fret === hit.fret)) return null
+    return { ...state, found: [...state.found, key] }
+  }
+  // without a position, credit the lowest matching cell still open
+  const cell = open.find((t) => matches(midiAt(tuning, t), midi, ignoreOctave))
+  if (!cell) return degreeOf(state.def, state.root, midi) != null ? state : null
+  return { ...state, found: [...state.found, cellKey(cell.stringIndex, cell.fret)] }
+}
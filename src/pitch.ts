@@ -0,0 +1,118 @@
+// Monophonic pitch detection (YIN) over raw sample buffers.
+// Pure functions only: no Web Audio here, so it runs offline on synthesized signals.
+
+export type PitchEstimate = {
+  hz: number
+  clarity: number // 0..1, 1 - YIN aperiodicity at the chosen lag
+}
+
+export type DetectOptions = {
+  minHz?: number
+  maxHz?: number
+  threshold?: number // YIN absolute threshold on the normalized difference
+  minRms?: number // below this the frame counts as silence
+}
+
+// Defaults cover F#0 (~23 Hz, 8-string low) up to the 24th fret of the highest tuning, C4 (C6 ~1047 Hz)
+const DEFAULTS: Required<DetectOptions> = {
+  minHz: 22,
+  maxHz: 1100,
+  threshold: 0.15,
+  minRms: 0.01,
+}
+
+export function rms(buf: Float32Array): number {
+  let sum = 0
+  for (let i = 0; i < buf.length; i += 1) sum += buf[i] * buf[i]
+  return Math.sqrt(sum / (buf.length || 1))
+}
+
+export function detectPitch(buf: Float32Array, sampleRate: number, options: DetectOptions = {}): PitchEstimate | null {
+  const { minHz, maxHz, threshold, minRms } = { ...DEFAULTS, ...options }
+  if (rms(buf) < minRms) return null
+  const maxTau = Math.min(Math.floor(sampleRate / minHz), Math.floor(buf.length / 2))
+  const minTau = Math.max(2, Math.floor(sampleRate / maxHz))
+  if (maxTau <= minTau) return null
+  const windowSize = buf.length - maxTau
+
+  // difference function d(tau), then cumulative mean normalized difference
+  const cmnd = new Float32Array(maxTau + 1)
+  cmnd[0] = 1
+  let running = 0
+  for (let tau = 1; tau <= maxTau; tau += 1) {
+    let d = 0
+    for (let i = 0; i < windowSize; i += 1) {
+      const delta = buf[i] - buf[i + tau]
+      d += delta * delta
+    }
+    running += d
+    cmnd[tau] = running > 0 ? (d * tau) / running : 1
+  }
+
+  // first dip under the threshold, followed down to its local minimum
+  let tau = -1
+  for (let t = minTau; t <= maxTau; t += 1) {
+    if (cmnd[t] < threshold) {
+      while (t + 1 <= maxTau && cmnd[t + 1] < cmnd[t]) t += 1
+      tau = t
+      break
+    }
+  }
+  if (tau === -1) return null
+
+  // parabolic interpolation around the minimum for sub-sample accuracy
+  let betterTau = tau
+  if (tau > 1 && tau < maxTau) {
+    const s0 = cmnd[tau - 1]
+    const s1 = cmnd[tau]
+    const s2 = cmnd[tau + 1]
+    const denom = s0 + s2 - 2 * s1
+    if (denom !== 0) betterTau = tau + (s0 - s2) / (2 * denom)
+  }
+  return { hz: sampleRate / betterTau, clarity: Math.max(0, Math.min(1, 1 - cmnd[tau])) }
+}
+
+export function hzToMidi(hz: number): number {
+  return 69 + 12 * Math.log2(hz / 440)
+}
+
+export function midiToHz(midi: number): number {
+  return 440 * Math.pow(2, (midi - 69) / 12)
+}
+
+// Same pitch class, any octave
+export function matchesIgnoringOctave(a: number, b: number): boolean {
+  return ((a - b) % 12 + 12) % 12 === 0
+}
+
+// Frames a note must hold by default before it is reported
+export const STABLE_FRAMES = 3
+
+export type StabilizerOptions = {
+  holdFrames?: number // identical frames required before a note is reported
+  minClarity?: number
+}
+
+// Debounces per-frame estimates: reports a note once after it has been held
+// steady, then stays quiet until the note changes or the signal drops out
+export function createStabilizer({ holdFrames = STABLE_FRAMES, minClarity = 0.8 }: StabilizerOptions = {}) {
+  let candidate: number | null = null
+  let count = 0
+  let reported: number | null = null
+  return (estimate: PitchEstimate | null): number | null => {
+    const midi = estimate && estimate.clarity >= minClarity ? Math.round(hzToMidi(estimate.hz)) : null
+    if (midi == null) {
+      candidate = null
+      count = 0
+      reported = null
+      return null
+    }
+    if (midi === candidate) count += 1
+    else { candidate = midi; count = 1 }
+    if (count >= holdFrames && midi !== reported) {
+      reported = midi
+      return midi
+    }
+    return null
+  }
+}
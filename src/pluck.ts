@@ -0,0 +1,93 @@
+import { createRng } from './rng'
+
+// Plucked-string voice: extended Karplus-Strong with a fractional-delay allpass
+// so low notes (B0–E1) stay in tune
+export type PluckOptions = {
+  tone: number // 0 (dark, flatwound) .. 1 (bright, roundwound)
+  pluckPosition: number // 0 (at the bridge) .. 1 (middle of the string, no even harmonics)
+  mute: number // 0 (ringing) .. 1 (palm muted)
+}
+
+export const DEFAULT_PLUCK: PluckOptions = { tone: 0.45, pluckPosition: 0.2, mute: 0 }
+
+const RING_SECONDS = 3.5 // time for an open string to decay by 60 dB
+const MUTED_SECONDS = 0.6
+
+function clamp01(v: number): number {
+  return Math.min(1, Math.max(0, v))
+}
+
+// Seconds until the note has decayed by 60 dB
+export function decaySeconds(opts: PluckOptions): number {
+  const m = clamp01(opts.mute)
+  return RING_SECONDS * Math.pow(MUTED_SECONDS / RING_SECONDS, m)
+}
+
+// Mono samples for one note; the noise burst is seeded so renders are repeatable
+export function renderPluck(hz: number, sampleRate: number, options: Partial<PluckOptions> = {}): Float32Array {
+  const opts = { ...DEFAULT_PLUCK, ...options }
+  const tone = clamp01(opts.tone)
+  const t60 = decaySeconds(opts)
+  const length = Math.ceil((t60 + 0.05) * sampleRate)
+  const out = new Float32Array(length)
+
+  // loop: delay line + two-point lowpass (half a sample of delay at s = 0.5) + allpass for the fraction
+  const s = 0.5 - 0.35 * tone // less smoothing keeps more overtones
+  const period = sampleRate / hz
+  let delay = period - s
+  let n = Math.floor(delay)
+  let frac = delay - n
+  if (frac < 0.1) { n -= 1; frac += 1 }
+  delay = n
+  const c = (1 - frac) / (1 + frac)
+  // per-pass gain for the wanted decay time
+  const rho = Math.pow(10, -3 / (t60 * hz))
+
+  // excitation: filtered noise, comb-filtered by the pluck position
+  const rng = createRng(`pluck-${Math.round(hz * 100)}`)
+  const burst = new Float32Array(n)
+  const a = 0.15 + 0.8 * tone // one-pole smoothing of the burst
+  let lp = 0
+  for (let i = 0; i < n; i += 1) {
+    lp += a * (rng() * 2 - 1 - lp)
+    burst[i] = lp
+  }
+  const offset = Math.max(1, Math.round(clamp01(opts.pluckPosition) * 0.5 * n))
+  let mean = 0
+  for (let i = n - 1; i >= 0; i -= 1) {
+    burst[i] -= i >= offset ? burst[i - offset] : 0
+    mean += burst[i]
+  }
+  mean /= n
+  let peak = 0
+  for (let i = 0; i < n; i += 1) {
+    burst[i] -= mean // no DC to ring forever
+    peak = Math.max(peak, Math.abs(burst[i]))
+  }
+
+  const line = new Float32Array(delay + 1)
+  let write = 0
+  let prevIn = 0
+  let apIn = 0
+  let apOut = 0
+  for (let i = 0; i < length; i += 1) {
+    const read = (write + 1) % line.length
+    const delayed = line[read]
+    // two-point lowpass
+    const smoothed = (1 - s) * delayed + s * prevIn
+    prevIn = delayed
+    // first-order allpass for the fractional part of the period
+    const ap = c * smoothed + apIn - c * apOut
+    apIn = smoothed
+    apOut = ap
+    const y = (i < n ? burst[i] / (peak || 1) : 0) + rho * ap
+    line[write] = y
+    write = read
+    out[i] = y
+  }
+
+  // gentle fade so the cut-off tail does not click
+  const fade = Math.min(length, Math.round(0.03 * sampleRate))
+  for (let i = 0; i < fade; i += 1) out[length - 1 - i] *= i / fade
+  return out
+}
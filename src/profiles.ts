@@ -0,0 +1,195 @@
+// Named profiles, each with its own copy of every setting and its practice history.
+// Storage layout (schema 2):
+//   bf:schema              layout version
+//   bf:profiles            { active, profiles: [{ id, name }] }
+//   bf:p:<id>:<setting>    one JSON value per setting
+// Schema 1 kept a single set of values directly under bf:<key>.
+import { isSettingName, validSetting, type SettingName, type SettingValue } from './settings'
+import { arrayOf, isPlainObject, isString, refine, shape, type Check } from './validate'
+
+export const SCHEMA_VERSION = 2
+const SCHEMA_KEY = 'bf:schema'
+const PROFILES_KEY = 'bf:profiles'
+const EXPORT_APP = 'bass-fretboard-trainer'
+const DEFAULT_PROFILE_ID = 'default'
+const MAX_NAME_LENGTH = 40
+
+export type Profile = { id: string; name: string }
+export type ProfileList = { active: string; profiles: Profile[] }
+
+// One profile's stored values by setting name, before validation
+export type Settings = Record<string, unknown>
+
+// Export file; `schema` tells import which migrations still apply
+export type ProfileExport = { app: string; schema: number; exportedAt: string; name: string; settings: Settings }
+
+const isProfileList: Check<ProfileList> = refine(
+  shape<ProfileList>({
+    active: isString,
+    profiles: arrayOf(shape<Profile>({ id: isString, name: isString })),
+  }),
+  (l) => l.profiles.length > 0 && l.profiles.some((p) => p.id === l.active),
+)
+
+// Schema 1 key names that changed
+const RENAMED_V1: Record<string, SettingName> = {
+  learning: 'readingLearning',
+  'ear:learning': 'earLearning',
+  'interval:learning': 'intervalLearning',
+  'pattern:learning': 'patternLearning',
+  attempts: 'readingAttempts',
+  'ear:attempts': 'earAttempts',
+  'interval:attempts': 'intervalAttempts',
+  'pattern:attempts': 'patternAttempts',
+}
+
+// Upgrades of one profile's values, keyed by the schema they produce
+const MIGRATIONS: Record<number, (settings: Settings) => Settings> = {
+  2: (settings) => Object.fromEntries(
+    Object.entries(settings).map(([key, value]) => {
+      const name = key.replace(/^bf:/, '')
+      return [RENAMED_V1[name] ?? name, value]
+    }),
+  ),
+}
+
+export function migrateSettings(settings: Settings, fromSchema: number): Settings {
+  let out = settings
+  for (let v = fromSchema + 1; v <= SCHEMA_VERSION; v++) out = MIGRATIONS[v]?.(out) ?? out
+  return out
+}
+
+function settingKey(profileId: string, name: string): string {
+  return `bf:p:${profileId}:${name}`
+}
+
+function readJson(key: string): unknown {
+  try {
+    const raw = localStorage.getItem(key)
+    return raw == null ? undefined : JSON.parse(raw)
+  } catch {
+    return undefined
+  }
+}
+
+function writeJson(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value))
+  } catch { /* storage full or unavailable */ }
+}
+
+function profileKeys(profileId: string): string[] {
+  const prefix = settingKey(profileId, '')
+  return Object.keys(localStorage).filter((k) => k.startsWith(prefix))
+}
+
+export function readSetting<K extends SettingName>(profileId: string, name: K): SettingValue<K> {
+  return validSetting(name, readJson(settingKey(profileId, name)))
+}
+
+export function writeSetting<K extends SettingName>(profileId: string, name: K, value: SettingValue<K>) {
+  writeJson(settingKey(profileId, name), value)
+}
+
+function readSettings(profileId: string): Settings {
+  const prefix = settingKey(profileId, '')
+  return Object.fromEntries(profileKeys(profileId).map((k) => [k.slice(prefix.length), readJson(k)]))
+}
+
+// Known settings only, each replaced by its default when invalid
+function writeSettings(profileId: string, settings: Settings) {
+  for (const [name, value] of Object.entries(settings)) {
+    if (isSettingName(name)) writeJson(settingKey(profileId, name), validSetting(name, value))
+  }
+}
+
+// Move schema 1 values into the first profile
+function upgradeStorage(defaultName: string) {
+  const stored = Number(readJson(SCHEMA_KEY) ?? 1)
+  if (stored >= SCHEMA_VERSION) return
+  const legacy = Object.keys(localStorage).filter((k) => k.startsWith('bf:') && k !== SCHEMA_KEY)
+  const settings = migrateSettings(Object.fromEntries(legacy.map((k) => [k, readJson(k)])), stored)
+  writeSettings(DEFAULT_PROFILE_ID, settings)
+  for (const k of legacy) localStorage.removeItem(k)
+  writeJson(PROFILES_KEY, { active: DEFAULT_PROFILE_ID, profiles: [{ id: DEFAULT_PROFILE_ID, name: defaultName }] })
+  writeJson(SCHEMA_KEY, SCHEMA_VERSION)
+}
+
+// Profile list after any storage upgrade; a missing or broken list becomes one default profile
+export function loadProfiles(defaultName: string): ProfileList {
+  try {
+    upgradeStorage(defaultName)
+  } catch { /* storage unavailable: run on defaults */ }
+  const list = readJson(PROFILES_KEY)
+  return isProfileList(list) ? list : { active: DEFAULT_PROFILE_ID, profiles: [{ id: DEFAULT_PROFILE_ID, name: defaultName }] }
+}
+
+export function saveProfiles(list: ProfileList) {
+  writeJson(PROFILES_KEY, list)
+}
+
+function cleanName(name: string, fallback: string): string {
+  return name.trim().slice(0, MAX_NAME_LENGTH) || fallback
+}
+
+function newProfileId(list: ProfileList): string {
+  let id: string
+  do id = Math.random().toString(36).slice(2, 10)
+  while (list.profiles.some((p) => p.id === id))
+  return id
+}
+
+// New profile on defaults, made active
+export function createProfile(list: ProfileList, name: string): ProfileList {
+  const id = newProfileId(list)
+  return { active: id, profiles: [...list.profiles, { id, name: cleanName(name, id) }] }
+}
+
+export function renameProfile(list: ProfileList, id: string, name: string): ProfileList {
+  return { ...list, profiles: list.profiles.map((p) => (p.id === id ? { ...p, name: cleanName(name, p.name) } : p)) }
+}
+
+// Removes a profile and its stored values; the last profile stays
+export function deleteProfile(list: ProfileList, id: string): ProfileList {
+  const profiles = list.profiles.filter((p) => p.id !== id)
+  if (profiles.length === 0) return list
+  for (const k of profileKeys(id)) localStorage.removeItem(k)
+  return { active: list.active === id ? profiles[0].id : list.active, profiles }
+}
+
+export function exportProfile(profile: Profile): string {
+  const file: ProfileExport = {
+    app: EXPORT_APP,
+    schema: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    name: profile.name,
+    settings: readSettings(profile.id),
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+const isProfileExport: Check<ProfileExport> = refine(
+  shape<ProfileExport>({
+    app: isString,
+    schema: (v): v is number => Number.isInteger(v),
+    exportedAt: isString,
+    name: isString,
+    settings: isPlainObject,
+  }),
+  (f) => f.app === EXPORT_APP && f.schema >= 1 && f.schema <= SCHEMA_VERSION,
+)
+
+// Adds the exported profile as a new, active profile; null when the file is not
+// an export of this app or comes from a newer version
+export function importProfile(list: ProfileList, text: string): ProfileList | null {
+  let file: unknown
+  try {
+    file = JSON.parse(text)
+  } catch {
+    return null
+  }
+  if (!isProfileExport(file)) return null
+  const next = createProfile(list, file.name)
+  writeSettings(next.active, migrateSettings(file.settings, file.schema))
+  return next
+}
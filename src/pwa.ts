@@ -0,0 +1,57 @@
+// Service worker registration and the browser's install prompt. The worker is
+// generated by the production build (plugins/pwa.ts); dev builds run without it.
+
+// Chromium's install event; not in the DOM typings
+export type InstallPromptEvent = Event & {
+  prompt(): Promise<void>
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>
+}
+
+const UPDATE_CHECK_MS = 60 * 60 * 1000
+
+let registered = false
+
+// Calls onUpdate with a function that activates a newly installed version (the page
+// reloads once it takes over), and onOfflineReady after the first install.
+export function registerServiceWorker(onUpdate: (apply: () => void) => void, onOfflineReady: () => void): void {
+  if (registered || !import.meta.env.PROD || !('serviceWorker' in navigator)) return
+  registered = true
+  const sw = navigator.serviceWorker
+  // only a switch the player asked for reloads; the first install just takes control
+  let applying = false
+  sw.addEventListener('controllerchange', () => {
+    if (applying) location.reload()
+  })
+  const offer = (worker: ServiceWorker) => onUpdate(() => {
+    applying = true
+    worker.postMessage('skipWaiting')
+  })
+  sw.register(`${import.meta.env.BASE_URL}sw.js`).then((registration) => {
+    // practice sessions run for hours; look for a new build now and then
+    window.setInterval(() => registration.update().catch(() => { /* offline; try again later */ }), UPDATE_CHECK_MS)
+    if (registration.waiting && sw.controller) offer(registration.waiting)
+    registration.addEventListener('updatefound', () => {
+      const worker = registration.installing
+      worker?.addEventListener('statechange', () => {
+        if (worker.state !== 'installed') return
+        if (sw.controller) offer(worker)
+        else onOfflineReady()
+      })
+    })
+  }).catch(() => { /* offline support is optional */ })
+}
+
+// Holds back the browser's install banner so the app can offer it; returns a cleanup function
+export function listenForInstall(onAvailable: (event: InstallPromptEvent | null) => void): () => void {
+  const onPrompt = (e: Event) => {
+    e.preventDefault()
+    onAvailable(e as InstallPromptEvent)
+  }
+  const onInstalled = () => onAvailable(null)
+  window.addEventListener('beforeinstallprompt', onPrompt)
+  window.addEventListener('appinstalled', onInstalled)
+  return () => {
+    window.removeEventListener('beforeinstallprompt', onPrompt)
+    window.removeEventListener('appinstalled', onInstalled)
+  }
+}
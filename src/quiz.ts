@@ -0,0 +1,115 @@
+import type { Tuning } from './tuning'
+import { matchesIgnoringOctave } from './pitch'
+
+export type Target = {
+  stringIndex: number // 0 = bottom (lowest pitch)
+  fret: number // 0..N (0 = open)
+}
+
+// pitch: any cell with the target pitch
+// string: the target pitch on one given string
+// window: the target pitch inside a fret window
+export type QuizMode = 'pitch' | 'string' | 'window'
+
+export type FretWindow = { min: number; max: number }
+
+// Active practice area: enabled strings and an inclusive fret range
+export type DrillRegion = {
+  strings: number[]
+  frets: FretWindow
+}
+
+export type Question = {
+  midi: number
+  stringIndex: number | null // required string (string mode, TAB string view)
+  fret: number | null // required fret (TAB fret view)
+  window: FretWindow | null // allowed frets, inclusive (window mode)
+}
+
+export function midiAt(tuning: Tuning, t: Target): number {
+  return tuning[t.stringIndex] + t.fret
+}
+
+export function clampWindow(w: FretWindow, frets: number): FretWindow {
+  const min = Math.max(0, Math.min(frets, Math.floor(w.min)))
+  const max = Math.max(min, Math.min(frets, Math.floor(w.max)))
+  return { min, max }
+}
+
+export function fullRegion(stringCount: number, frets: number): DrillRegion {
+  return { strings: Array.from({ length: stringCount }, (_, i) => i), frets: { min: 0, max: frets } }
+}
+
+// Sanitize stored strings/range against the instrument; no strings selected means all
+export function resolveRegion(strings: unknown, window: FretWindow, stringCount: number, frets: number): DrillRegion {
+  const valid = Array.isArray(strings)
+    ? strings.filter((i): i is number => Number.isInteger(i) && i >= 0 && i < stringCount)
+    : []
+  return {
+    strings: valid.length ? Array.from(new Set(valid)).sort((a, b) => a - b) : fullRegion(stringCount, frets).strings,
+    frets: clampWindow(window, frets),
+  }
+}
+
+// Narrow a region's frets to a window; null when they do not overlap
+export function narrowRegion(region: DrillRegion, window: FretWindow | null): DrillRegion | null {
+  if (!window) return region
+  const min = Math.max(region.frets.min, window.min)
+  const max = Math.min(region.frets.max, window.max)
+  return min <= max ? { strings: region.strings, frets: { min, max } } : null
+}
+
+export function inRegion(region: DrillRegion, t: Target): boolean {
+  return region.strings.includes(t.stringIndex) && t.fret >= region.frets.min && t.fret <= region.frets.max
+}
+
+// All cells producing `midi` inside the region
+export function positionsOf(tuning: Tuning, midi: number, region: DrillRegion): Target[] {
+  const out: Target[] = []
+  for (const stringIndex of region.strings) {
+    const fret = midi - tuning[stringIndex]
+    if (fret >= region.frets.min && fret <= region.frets.max) out.push({ stringIndex, fret })
+  }
+  return out
+}
+
+// Distinct pitches playable inside the region
+export function pitchesIn(tuning: Tuning, region: DrillRegion): number[] {
+  const s = new Set<number>()
+  for (const stringIndex of region.strings) {
+    for (let f = region.frets.min; f <= region.frets.max; f += 1) s.add(tuning[stringIndex] + f)
+  }
+  return Array.from(s)
+}
+
+// Weighted random choice of one position (e.g. toward weak cells)
+export function pickPosition(
+  positions: Target[],
+  weightOf: (t: Target) => number = () => 1,
+  rng: () => number = Math.random,
+): Target | null {
+  if (positions.length === 0) return null
+  const weights = positions.map(weightOf)
+  const total = weights.reduce((a, b) => a + b, 0)
+  let r = rng() * total
+  for (let i = 0; i < positions.length; i += 1) {
+    r -= weights[i]
+    if (r < 0) return positions[i]
+  }
+  return positions[positions.length - 1]
+}
+
+// Whether a pressed cell answers the question under its constraint
+export function isCorrectHit(q: Question, hit: Target, tuning: Tuning): boolean {
+  if (midiAt(tuning, hit) !== q.midi) return false
+  if (q.stringIndex != null && hit.stringIndex !== q.stringIndex) return false
+  if (q.fret != null && hit.fret !== q.fret) return false
+  if (q.window && (hit.fret < q.window.min || hit.fret > q.window.max)) return false
+  return true
+}
+
+// Pitch-only check for answers without a position (e.g. microphone input);
+// string/fret/window constraints cannot be verified there
+export function isCorrectPitch(q: Question, midi: number, ignoreOctave = false): boolean {
+  return ignoreOctave ? matchesIgnoringOctave(midi, q.midi) : midi === q.midi
+}
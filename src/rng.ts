@@ -0,0 +1,37 @@
+// Seeded randomness so a shared drill replays the same targets
+
+// FNV-1a, 32-bit
+export function hashSeed(seed: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < seed.length; i += 1) {
+    h ^= seed.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+// mulberry32: small, fast and good enough for picking notes; returns [0, 1)
+export function createRng(seed: string): () => number {
+  let a = hashSeed(seed)
+  return () => {
+    a = (a + 0x6d2b79f5) | 0
+    let t = Math.imul(a ^ (a >>> 15), 1 | a)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export function randomSeed(): string {
+  return Math.floor(Math.random() * 36 ** 8).toString(36).padStart(8, '0')
+}
+
+// Same for everyone on the same local calendar day, e.g. "daily-2026-10-19"
+export function dailySeed(date: Date = new Date()): string {
+  const mm = String(date.getMonth() + 1).padStart(2, '0')
+  const dd = String(date.getDate()).padStart(2, '0')
+  return `daily-${date.getFullYear()}-${mm}-${dd}`
+}
+
+export function isDailySeed(seed: string): boolean {
+  return /^daily-\d{4}-\d{2}-\d{2}$/.test(seed)
+}
@@ -0,0 +1,68 @@
+import { LETTER_PCS, type Letter } from './notes'
+
+// Sample-set playback: one recorded note per file, repitched to the notes in between
+
+// Note from a file name such as "E1.wav", "A#2.mp3", "Bb0 soft.ogg" or "40.flac" (a MIDI number)
+export function parseSampleName(name: string): number | null {
+  const base = name.replace(/\.[^.]+$/, '')
+  const m = base.match(/(?:^|[^A-Za-z])([A-Ga-g])(#|b|♯|♭)?(-?\d)(?!\d)/)
+  if (m) {
+    const letter = m[1].toUpperCase() as Letter
+    const alter = m[2] === '#' || m[2] === '♯' ? 1 : m[2] === 'b' || m[2] === '♭' ? -1 : 0
+    return (Number(m[3]) + 1) * 12 + LETTER_PCS[letter] + alter
+  }
+  const n = base.match(/^(\d{1,3})$/)
+  return n && Number(n[1]) <= 127 ? Number(n[1]) : null
+}
+
+export type SampleZone = { midi: number; buffer: AudioBuffer }
+
+export class SamplePlayer {
+  private zones: SampleZone[] = []
+
+  get size(): number {
+    return this.zones.length
+  }
+
+  // Decode files on the context that will play them; unreadable or unnamed files are skipped
+  async load(ctx: BaseAudioContext, files: { name: string; data: ArrayBuffer }[]): Promise<number> {
+    const decoded = await Promise.all(files.map(async (f) => {
+      const midi = parseSampleName(f.name)
+      if (midi == null) return null
+      try {
+        return { midi, buffer: await ctx.decodeAudioData(f.data.slice(0)) }
+      } catch {
+        return null
+      }
+    }))
+    for (const z of decoded) if (z) this.add(z.midi, z.buffer)
+    return decoded.filter(Boolean).length
+  }
+
+  add(midi: number, buffer: AudioBuffer) {
+    this.zones = [...this.zones.filter((z) => z.midi !== midi), { midi, buffer }].sort((a, b) => a.midi - b.midi)
+  }
+
+  clear() {
+    this.zones = []
+  }
+
+  // Closest recorded note; ties go to the lower sample, which keeps more body when pitched up
+  nearest(midi: number): SampleZone | null {
+    let best: SampleZone | null = null
+    for (const z of this.zones) {
+      if (!best || Math.abs(z.midi - midi) < Math.abs(best.midi - midi)) best = z
+    }
+    return best
+  }
+
+  // Source node playing `midi`, not yet started
+  createSource(ctx: BaseAudioContext, midi: number): AudioBufferSourceNode | null {
+    const zone = this.nearest(midi)
+    if (!zone) return null
+    const source = ctx.createBufferSource()
+    source.buffer = zone.buffer
+    source.playbackRate.value = Math.pow(2, (midi - zone.midi) / 12)
+    return source
+  }
+}
@@ -0,0 +1,118 @@
+// Leitner-style spaced repetition over target notes.
+// The clock is the number of questions asked (step), not wall time, so
+// practice sessions of any length advance the schedule the same way.
+
+export type ItemStats = {
+  box: number // 0 = weakest .. LEITNER_INTERVALS.length - 1 = mastered
+  attempts: number
+  correct: number
+  avgLatencyMs: number // exponential moving average over answers
+  lastStep: number
+}
+
+export type LearningState = {
+  step: number
+  notes: Record<string, ItemStats> // keyed by MIDI number
+  cells: Record<string, ItemStats> // keyed by `${stringIndex}:${fret}`
+}
+
+export type Answer = {
+  midi: number
+  cell: { stringIndex: number; fret: number } | null
+  correct: boolean
+  latencyMs: number
+}
+
+// questions to wait before an item in box N is due again
+export const LEITNER_INTERVALS = [1, 3, 8, 20, 50]
+// relative draw weight of a due item in box N
+const BOX_WEIGHTS = [8, 4, 2, 1, 0.5]
+const NEW_ITEM_WEIGHT = 4
+const NOT_DUE_FACTOR = 0.1
+// answers slower than this do not promote an item
+export const SLOW_LATENCY_MS = 4000
+const LATENCY_SMOOTHING = 0.3
+
+export function createLearningState(): LearningState {
+  return { step: 0, notes: {}, cells: {} }
+}
+
+export function cellKey(stringIndex: number, fret: number): string {
+  return `${stringIndex}:${fret}`
+}
+
+function updateItem(prev: ItemStats | undefined, answer: Answer, step: number): ItemStats {
+  const last = LEITNER_INTERVALS.length - 1
+  const base: ItemStats = prev ?? { box: 0, attempts: 0, correct: 0, avgLatencyMs: answer.latencyMs, lastStep: step }
+  let box = base.box
+  if (!answer.correct) box = 0
+  else if (answer.latencyMs <= SLOW_LATENCY_MS) box = Math.min(last, box + 1)
+  return {
+    box,
+    attempts: base.attempts + 1,
+    correct: base.correct + (answer.correct ? 1 : 0),
+    avgLatencyMs: prev
+      ? prev.avgLatencyMs + (answer.latencyMs - prev.avgLatencyMs) * LATENCY_SMOOTHING
+      : answer.latencyMs,
+    lastStep: step,
+  }
+}
+
+// Record one answered target; returns a new state (input is not mutated)
+export function recordAnswer(state: LearningState, answer: Answer): LearningState {
+  const step = state.step + 1
+  const noteKey = String(answer.midi)
+  const notes = { ...state.notes, [noteKey]: updateItem(state.notes[noteKey], answer, step) }
+  let cells = state.cells
+  if (answer.cell) {
+    const key = cellKey(answer.cell.stringIndex, answer.cell.fret)
+    cells = { ...cells, [key]: updateItem(cells[key], answer, step) }
+  }
+  return { step, notes, cells }
+}
+
+export function isDue(item: ItemStats, step: number): boolean {
+  const interval = LEITNER_INTERVALS[Math.min(item.box, LEITNER_INTERVALS.length - 1)]
+  return step - item.lastStep >= interval
+}
+
+// Draw weight of an item: low boxes, misses and slow answers weigh more
+export function itemWeight(item: ItemStats | undefined, step: number): number {
+  if (!item) return NEW_ITEM_WEIGHT
+  const box = Math.min(item.box, BOX_WEIGHTS.length - 1)
+  const errorRate = item.attempts > 0 ? 1 - item.correct / item.attempts : 0
+  const slowness = Math.min(3, Math.max(1, item.avgLatencyMs / SLOW_LATENCY_MS * 2))
+  const due = isDue(item, step) ? 1 : NOT_DUE_FACTOR
+  return BOX_WEIGHTS[box] * (1 + errorRate) * slowness * due
+}
+
+// Weight of a note, also pulled up by its weakest string×fret cell if known
+export function noteWeight(state: LearningState, midi: number, cells: string[] = []): number {
+  let w = itemWeight(state.notes[String(midi)], state.step)
+  for (const key of cells) {
+    const item = state.cells[key]
+    if (item) w = Math.max(w, itemWeight(item, state.step))
+  }
+  return w
+}
+
+// Weighted random pick among candidates; `avoid` (usually the current note) is
+// skipped whenever there is any other choice
+export function pickNext(
+  state: LearningState,
+  candidates: number[],
+  rng: () => number = Math.random,
+  avoid: number | null = null,
+  cellsOf: (midi: number) => string[] = () => [],
+): number | null {
+  const pool = candidates.length > 1 ? candidates.filter((m) => m !== avoid) : candidates
+  if (pool.length === 0) return null
+  const weights = pool.map((m) => noteWeight(state, m, cellsOf(m)))
+  const total = weights.reduce((a, b) => a + b, 0)
+  let r = rng() * total
+  for (let i = 0; i < pool.length; i += 1) {
+    r -= weights[i]
+    if (r < 0) return pool[i]
+  }
+  return pool[pool.length - 1]
+}
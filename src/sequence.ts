@@ -0,0 +1,85 @@
+// Sight-reading phrases: measures of 4/4 built from whole, half, quarter and
+// beamed eighth-note pairs, optionally with rests
+
+export type Duration = 'w' | 'h' | 'q' | '8'
+
+export type SeqEvent = {
+  midi: number | null // null = rest
+  duration: Duration
+  measure: number
+}
+
+export type SequenceOptions = {
+  measures: number
+  rhythms: boolean // false = quarter notes only
+  rests: boolean
+}
+
+export const EIGHTHS: Record<Duration, number> = { w: 8, h: 4, q: 2, '8': 1 }
+// preferred largest leap between consecutive notes, in semitones
+const MAX_LEAP = 7
+const REST_CHANCE = 0.15
+
+function uniformPick(rng: () => number) {
+  return (candidates: number[]) => candidates[Math.floor(rng() * candidates.length)]
+}
+
+// Durations filling one measure, beat by beat so eighths stay in beamable pairs
+function measureRhythm(rhythms: boolean, rng: () => number): Duration[] {
+  if (!rhythms) return ['q', 'q', 'q', 'q']
+  if (rng() < 0.05) return ['w']
+  const out: Duration[] = []
+  let beat = 0
+  while (beat < 4) {
+    const r = rng()
+    if (beat % 2 === 0 && r < 0.2) { out.push('h'); beat += 2 }
+    else if (r < 0.5) { out.push('8', '8'); beat += 1 }
+    else { out.push('q'); beat += 1 }
+  }
+  return out
+}
+
+// `pick` chooses the next pitch among candidates (e.g. weighted by the learning model)
+export function generateSequence(
+  pitches: number[],
+  options: SequenceOptions,
+  rng: () => number = Math.random,
+  pick: (candidates: number[]) => number = uniformPick(rng),
+): SeqEvent[] {
+  const events: SeqEvent[] = []
+  if (pitches.length === 0) return events
+  let prev: number | null = null
+  for (let measure = 0; measure < options.measures; measure += 1) {
+    const rhythm = measureRhythm(options.rhythms, rng)
+    const start = events.length
+    for (const duration of rhythm) {
+      if (options.rests && duration !== 'w' && rng() < REST_CHANCE) {
+        events.push({ midi: null, duration, measure })
+        continue
+      }
+      const last = prev
+      const near = last == null ? pitches : pitches.filter((m) => m !== last && Math.abs(m - last) <= MAX_LEAP)
+      const midi = pick(near.length ? near : pitches)
+      events.push({ midi, duration, measure })
+      prev = midi
+    }
+    // never leave a measure without anything to play
+    if (events.slice(start).every((e) => e.midi == null)) {
+      events[start] = { ...events[start], midi: pick(pitches) }
+      prev = events[start].midi
+    }
+  }
+  return events
+}
+
+export function measureCount(events: SeqEvent[]): number {
+  return events.reduce((n, e) => Math.max(n, e.measure + 1), 0)
+}
+
+// Index of the first note (not rest) at or after `from`, or -1
+export function nextNoteIndex(events: SeqEvent[], from: number): number {
+  for (let i = Math.max(0, from); i < events.length; i += 1) {
+    if (events[i].midi != null) return i
+  }
+  return -1
+}
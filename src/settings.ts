@@ -0,0 +1,200 @@
+// Every persisted value of a profile: its default and the check a stored or
+// imported value must pass. Values that fail fall back to the default.
+import type { SustainMode, VoiceKind } from './audio'
+import { CENTS_TOLERANCES, type FretLines } from './fretless'
+import type { GameMode, LeaderboardEntry, Leaderboards } from './game'
+import { LOCALES, type LocaleSetting } from './i18n'
+import { INTERVAL_SEMITONES, type IntervalKind, type IntervalReach } from './intervals'
+import { PERPENDICULAR_FRETS, SCALE_LENGTHS } from './multiscale'
+import { DEFAULT_METRONOME, MAX_BPM, MIN_BPM, type MetronomeSettings } from './metronome'
+import type { NoteNaming, SpellingPreference } from './notes'
+import { PATTERNS, type PatternOrder } from './patterns'
+import { DEFAULT_PLUCK } from './pluck'
+import type { FretWindow, QuizMode } from './quiz'
+import { createLearningState, type ItemStats, type LearningState } from './scheduler'
+import { MAX_ATTEMPTS, type Attempt, type HeatmapMetric } from './stats'
+import { STRING_COUNTS, TUNING_MAX_MIDI, TUNING_MIN_MIDI, isStringCount, standardTuning, type StringCount, type Tuning } from './tuning'
+import {
+  arrayOf,
+  intIn,
+  isBoolean,
+  isString,
+  nullable,
+  numberIn,
+  oneOf,
+  recordOf,
+  refine,
+  shape,
+  type Check,
+} from './validate'
+
+export const BOARD_THEMES = ['ebony', 'maple', 'rosewood', 'pauferro', 'contrastDark', 'contrastLight'] as const
+export type BoardTheme = (typeof BOARD_THEMES)[number]
+export const INLAY_STYLES = ['dot', 'block', 'none'] as const
+export type InlayStyle = (typeof INLAY_STYLES)[number]
+// staff: bass clef 8vb; staffConcert: bass clef at pitch; treble: treble clef 15mb;
+// tabString: TAB gives the string, find the fret; tabFret: TAB gives the fret, find the string
+export const PROBLEM_VIEWS = ['text', 'staff', 'staffConcert', 'treble', 'tabString', 'tabFret', 'textStaff'] as const
+export type ProblemView = (typeof PROBLEM_VIEWS)[number]
+export const TARGET_SELECTIONS = ['shuffle', 'adaptive'] as const
+export type TargetSelection = (typeof TARGET_SELECTIONS)[number]
+export const INPUT_MODES = ['touch', 'mic', 'midi'] as const
+export type InputMode = (typeof INPUT_MODES)[number]
+export const TRAINING_MODES = ['reading', 'ear', 'interval', 'pattern'] as const
+export type TrainingMode = (typeof TRAINING_MODES)[number]
+export const EAR_REFERENCES = ['none', 'open', 'drone'] as const
+export type EarReference = (typeof EAR_REFERENCES)[number]
+export const READING_FORMATS = ['single', 'sequence'] as const
+export type ReadingFormat = (typeof READING_FORMATS)[number]
+export const FRET_COUNTS = [12, 21, 22, 23, 24] as const
+export const SEQUENCE_MEASURES = [1, 2, 4] as const
+export const GROOVE_WINDOWS = [50, 90, 140] as const
+
+type Setting<T> = { initial: () => T; check: Check<T> }
+
+function setting<T>(initial: T | (() => T), check: Check<T>): Setting<T> {
+  // fresh objects for every reader, so no two profiles share a default
+  return { initial: typeof initial === 'function' ? (initial as () => T) : () => structuredClone(initial), check }
+}
+
+const isFret = intIn(0, 24)
+const isPitchClass = intIn(0, 11)
+const isUnit = numberIn(0, 1)
+
+const isFretWindow: Check<FretWindow> = refine(shape<FretWindow>({ min: isFret, max: isFret }), (w) => w.min <= w.max)
+
+const isTuning: Check<Tuning> = refine(
+  arrayOf(intIn(TUNING_MIN_MIDI, TUNING_MAX_MIDI)),
+  (t) => isStringCount(t.length),
+)
+
+const isMetronomeSettings: Check<MetronomeSettings> = shape<MetronomeSettings>({
+  bpm: intIn(MIN_BPM, MAX_BPM),
+  signature: shape({ beats: intIn(1, 16), unit: oneOf([4, 8] as const) }),
+  subdivision: oneOf([1, 2, 3, 4] as const),
+  accent: isBoolean,
+})
+
+const isCount = intIn(0, Number.MAX_SAFE_INTEGER)
+const isItemStats: Check<ItemStats> = shape<ItemStats>({
+  box: isCount,
+  attempts: isCount,
+  correct: isCount,
+  avgLatencyMs: numberIn(0, Infinity),
+  lastStep: isCount,
+})
+const isLearningState: Check<LearningState> = shape<LearningState>({
+  step: isCount,
+  notes: recordOf(isItemStats),
+  cells: recordOf(isItemStats),
+})
+
+const isMidi = intIn(0, 127)
+const isAttempt: Check<Attempt> = shape<Attempt>({
+  ts: isCount,
+  targetMidi: isMidi,
+  pressedMidi: isMidi,
+  stringIndex: nullable(intIn(0, 7)),
+  fret: nullable(isFret),
+  correct: isBoolean,
+  latencyMs: numberIn(0, Infinity),
+})
+const isAttempts = arrayOf(isAttempt, MAX_ATTEMPTS)
+
+const isLeaderboards: Check<Leaderboards> = recordOf(arrayOf(shape<LeaderboardEntry>({
+  score: numberIn(0, Infinity),
+  correct: isCount,
+  wrong: isCount,
+  durationMs: numberIn(0, Infinity),
+  ts: isCount,
+})))
+
+export const SETTINGS = {
+  locale: setting<LocaleSetting>('auto', oneOf(['auto', ...LOCALES])),
+  noteNaming: setting<NoteNaming>('letter', oneOf(['letter', 'solfege', 'german'] as const)),
+  // instrument and board
+  stringCount: setting<StringCount>(4, oneOf(STRING_COUNTS)),
+  tuning: setting<Tuning>(() => standardTuning(4), isTuning),
+  frets: setting<number>(21, oneOf(FRET_COUNTS)),
+  // scale length in inches per side; unequal sides fan the frets
+  scaleBass: setting<number>(34, oneOf(SCALE_LENGTHS)),
+  scaleTreble: setting<number>(34, oneOf(SCALE_LENGTHS)),
+  perpendicularFret: setting<number>(0, oneOf(PERPENDICULAR_FRETS)),
+  theme: setting<BoardTheme>('ebony', oneOf(BOARD_THEMES)),
+  inlay: setting<InlayStyle>('dot', oneOf(INLAY_STYLES)),
+  flipBoth: setting(false, isBoolean),
+  // follows the system preference until changed
+  reducedMotion: setting(() => window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false, isBoolean),
+  sideDots: setting(false, isBoolean),
+  binding: setting(false, isBoolean),
+  heatmap: setting<HeatmapMetric>('off', oneOf(['off', 'errors', 'slowness'] as const)),
+  fretless: setting(false, isBoolean),
+  fretLines: setting<FretLines>('lined', oneOf(['lined', 'unlined'] as const)),
+  centsTolerance: setting<number>(20, oneOf(CENTS_TOLERANCES)), // ± cents counted as in tune
+  // sound
+  soundOn: setting(true, isBoolean),
+  volume: setting(0.9, isUnit),
+  muted: setting(false, isBoolean),
+  sustain: setting<SustainMode>('ring', oneOf(['ring', 'staccato'] as const)),
+  feedbackSounds: setting(false, isBoolean),
+  voice: setting<VoiceKind>('pluck', oneOf(['pluck', 'samples'] as const)),
+  pluckTone: setting(DEFAULT_PLUCK.tone, isUnit),
+  pluckPosition: setting(DEFAULT_PLUCK.pluckPosition, isUnit),
+  pluckMute: setting(DEFAULT_PLUCK.mute, isUnit),
+  metronome: setting(false, isBoolean),
+  metronomeSettings: setting<MetronomeSettings>(DEFAULT_METRONOME, isMetronomeSettings),
+  groove: setting(false, isBoolean),
+  grooveBeat: setting(1, intIn(1, 16)), // 1-based beat in the bar
+  grooveWindow: setting<number>(90, oneOf(GROOVE_WINDOWS)), // ± ms counted as on time
+  tempoRamp: setting(false, isBoolean),
+  // what is asked and how
+  trainingMode: setting<TrainingMode>('reading', oneOf(TRAINING_MODES)),
+  problemView: setting<ProblemView>('text', oneOf(PROBLEM_VIEWS)),
+  spelling: setting<SpellingPreference>('sharps', oneOf(['sharps', 'flats', 'mixed', 'key'] as const)),
+  keyFifths: setting(0, intIn(-7, 7)),
+  readingFormat: setting<ReadingFormat>('single', oneOf(READING_FORMATS)),
+  seqMeasures: setting<number>(2, oneOf(SEQUENCE_MEASURES)),
+  seqRhythms: setting(true, isBoolean),
+  seqRests: setting(false, isBoolean),
+  selection: setting<TargetSelection>('adaptive', oneOf(TARGET_SELECTIONS)),
+  earReference: setting<EarReference>('none', oneOf(EAR_REFERENCES)),
+  droneKey: setting(9, isPitchClass), // A
+  intervalKind: setting<IntervalKind>('interval', oneOf(['interval', 'degree'] as const)),
+  intervals: setting<number[]>([3, 4, 7, 10], refine(arrayOf(oneOf(INTERVAL_SEMITONES)), (s) => s.length > 0)),
+  intervalReach: setting<IntervalReach>('any', oneOf(['any', 'same', 'adjacent'] as const)),
+  patternKey: setting(0, isPitchClass), // root
+  pattern: setting('major', refine(isString, (id) => PATTERNS.some((p) => p.id === id))),
+  patternOrder: setting<PatternOrder>('ordered', oneOf(['ordered', 'all'] as const)),
+  quizMode: setting<QuizMode>('pitch', oneOf(['pitch', 'string', 'window'] as const)),
+  fretWindow: setting<FretWindow>({ min: 5, max: 9 }, isFretWindow),
+  drillStrings: setting<number[]>([], arrayOf(intIn(0, 7))), // empty = all strings
+  drillFrets: setting<FretWindow>({ min: 0, max: 24 }, isFretWindow),
+  inputMode: setting<InputMode>('touch', oneOf(INPUT_MODES)),
+  octaveTolerant: setting(false, isBoolean),
+  midiChannelPerString: setting(false, isBoolean),
+  gamepad: setting(false, isBoolean),
+  gameMode: setting<GameMode>('free', oneOf(['free', 'timed', 'sprint', 'survival'] as const)),
+  // practice history, one per training mode
+  readingLearning: setting<LearningState>(createLearningState, isLearningState),
+  earLearning: setting<LearningState>(createLearningState, isLearningState),
+  intervalLearning: setting<LearningState>(createLearningState, isLearningState),
+  patternLearning: setting<LearningState>(createLearningState, isLearningState),
+  readingAttempts: setting<Attempt[]>([], isAttempts),
+  earAttempts: setting<Attempt[]>([], isAttempts),
+  intervalAttempts: setting<Attempt[]>([], isAttempts),
+  patternAttempts: setting<Attempt[]>([], isAttempts),
+  leaderboards: setting<Leaderboards>({}, isLeaderboards),
+}
+
+export type SettingName = keyof typeof SETTINGS
+export type SettingValue<K extends SettingName> = (typeof SETTINGS)[K] extends Setting<infer T> ? T : never
+
+export function isSettingName(name: string): name is SettingName {
+  return Object.hasOwn(SETTINGS, name)
+}
+
+// Stored or imported value if it passes the check, else the default
+export function validSetting<K extends SettingName>(name: K, value: unknown): SettingValue<K> {
+  const { initial, check } = SETTINGS[name] as Setting<SettingValue<K>>
+  return check(value) ? value : initial()
+}
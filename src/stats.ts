@@ -0,0 +1,110 @@
+// Attempt history and aggregate statistics for the stats view and heatmap
+
+export type Attempt = {
+  ts: number // epoch ms
+  targetMidi: number
+  pressedMidi: number
+  stringIndex: number | null // pressed cell; null for answers without a position (e.g. microphone)
+  fret: number | null
+  correct: boolean
+  latencyMs: number // since the target was shown
+}
+
+export type Summary = {
+  attempts: number
+  correct: number
+  accuracy: number // 0..1, 0 when there are no attempts
+  medianLatencyMs: number | null // over correct answers only
+}
+
+export type HeatmapMetric = 'off' | 'errors' | 'slowness'
+
+// Keep the stored history bounded (localStorage is small)
+export const MAX_ATTEMPTS = 5000
+
+export function appendAttempt(history: Attempt[], attempt: Attempt): Attempt[] {
+  const next = history.length >= MAX_ATTEMPTS ? history.slice(history.length - MAX_ATTEMPTS + 1) : history.slice()
+  next.push(attempt)
+  return next
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = values.slice().sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+export function summarize(attempts: Attempt[]): Summary {
+  const correct = attempts.filter((a) => a.correct)
+  return {
+    attempts: attempts.length,
+    correct: correct.length,
+    accuracy: attempts.length ? correct.length / attempts.length : 0,
+    medianLatencyMs: median(correct.map((a) => a.latencyMs)),
+  }
+}
+
+function groupBy<K>(attempts: Attempt[], keyOf: (a: Attempt) => K | null): Map<K, Summary> {
+  const groups = new Map<K, Attempt[]>()
+  for (const a of attempts) {
+    const k = keyOf(a)
+    if (k == null) continue
+    const list = groups.get(k)
+    if (list) list.push(a)
+    else groups.set(k, [a])
+  }
+  const out = new Map<K, Summary>()
+  groups.forEach((list, k) => out.set(k, summarize(list)))
+  return out
+}
+
+// per target note
+export function byNote(attempts: Attempt[]): Map<number, Summary> {
+  return groupBy(attempts, (a) => a.targetMidi)
+}
+
+// per pressed string (0 = bottom)
+export function byString(attempts: Attempt[]): Map<number, Summary> {
+  return groupBy(attempts, (a) => a.stringIndex)
+}
+
+// per pressed cell, keyed by `${stringIndex}:${fret}`
+export function byCell(attempts: Attempt[]): Map<string, Summary> {
+  return groupBy(attempts, (a) => (a.stringIndex == null ? null : `${a.stringIndex}:${a.fret}`))
+}
+
+function dayKey(ts: number): string {
+  const d = new Date(ts)
+  const mm = String(d.getMonth() + 1).padStart(2, '0')
+  const dd = String(d.getDate()).padStart(2, '0')
+  return `${d.getFullYear()}-${mm}-${dd}`
+}
+
+// per local calendar day, oldest first
+export function byDay(attempts: Attempt[]): { day: string; summary: Summary }[] {
+  const map = groupBy(attempts, (a) => dayKey(a.ts))
+  return Array.from(map, ([day, summary]) => ({ day, summary })).sort((a, b) => a.day.localeCompare(b.day))
+}
+
+// Heatmap intensity (0..1) per cell for the chosen metric
+export function heatmapIntensities(attempts: Attempt[], metric: HeatmapMetric): Map<string, number> {
+  const out = new Map<string, number>()
+  if (metric === 'off') return out
+  const cells = byCell(attempts)
+  if (metric === 'errors') {
+    cells.forEach((s, k) => { if (s.attempts > 0) out.set(k, 1 - s.accuracy) })
+    return out
+  }
+  // slowness: scale median latency between the fastest and slowest cell
+  const latencies: number[] = []
+  cells.forEach((s) => { if (s.medianLatencyMs != null) latencies.push(s.medianLatencyMs) })
+  if (latencies.length === 0) return out
+  const lo = Math.min(...latencies)
+  const hi = Math.max(...latencies)
+  cells.forEach((s, k) => {
+    if (s.medianLatencyMs == null) return
+    out.set(k, hi > lo ? (s.medianLatencyMs - lo) / (hi - lo) : 0)
+  })
+  return out
+}
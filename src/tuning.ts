@@ -0,0 +1,72 @@
+export type StringCount = 4 | 5 | 6 | 7 | 8
+
+export const STRING_COUNTS: StringCount[] = [4, 5, 6, 7, 8]
+
+// open string MIDI numbers, index 0 = bottom (lowest pitch)
+export type Tuning = number[]
+
+export type TuningPreset = {
+  id: string
+  strings: Tuning
+}
+
+// Presets per string count (names live in the locale catalogs); the first entry is the standard tuning
+export const TUNING_PRESETS: Record<StringCount, TuningPreset[]> = {
+  4: [
+    { id: 'std4', strings: [28, 33, 38, 43] },
+    { id: 'dropD4', strings: [26, 33, 38, 43] },
+    { id: 'eb4', strings: [27, 32, 37, 42] },
+    { id: 'dStd4', strings: [26, 31, 36, 41] },
+    { id: 'bead4', strings: [23, 28, 33, 38] },
+    { id: 'tenor4', strings: [33, 38, 43, 48] },
+  ],
+  5: [
+    { id: 'std5', strings: [23, 28, 33, 38, 43] },
+    { id: 'dropA5', strings: [21, 28, 33, 38, 43] },
+    { id: 'tenor5', strings: [28, 33, 38, 43, 48] },
+  ],
+  6: [
+    { id: 'std6', strings: [23, 28, 33, 38, 43, 48] },
+    { id: 'tenor6', strings: [28, 33, 38, 43, 48, 53] },
+  ],
+  7: [
+    { id: 'std7', strings: [18, 23, 28, 33, 38, 43, 48] },
+    { id: 'high7', strings: [23, 28, 33, 38, 43, 48, 53] },
+  ],
+  8: [
+    { id: 'std8', strings: [18, 23, 28, 33, 38, 43, 48, 53] },
+  ],
+}
+
+// Selectable range for the per-string editor (C0 .. C4)
+export const TUNING_MIN_MIDI = 12
+export const TUNING_MAX_MIDI = 60
+
+export function isStringCount(n: number): n is StringCount {
+  return (STRING_COUNTS as number[]).includes(n)
+}
+
+export function standardTuning(count: StringCount): Tuning {
+  return TUNING_PRESETS[count][0].strings.slice()
+}
+
+// Preset matching the given tuning exactly, or null for a custom tuning
+export function findPreset(tuning: Tuning): TuningPreset | null {
+  if (!isStringCount(tuning.length)) return null
+  const match = TUNING_PRESETS[tuning.length].find((p) =>
+    p.strings.every((m, i) => m === tuning[i]),
+  )
+  return match ?? null
+}
+
+// Accept only a well-formed tuning for the given string count, else fall back to standard
+export function resolveTuning(tuning: unknown, count: StringCount): Tuning {
+  if (
+    Array.isArray(tuning) &&
+    tuning.length === count &&
+    tuning.every((m) => Number.isInteger(m) && m >= TUNING_MIN_MIDI && m <= TUNING_MAX_MIDI)
+  ) {
+    return tuning as Tuning
+  }
+  return standardTuning(count)
+}
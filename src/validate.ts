@@ -0,0 +1,46 @@
+// Runtime checks for data read back from storage or an imported file.
+// Each check is a type guard, so a passing value can be used as its type.
+
+export type Check<T> = (value: unknown) => value is T
+
+export const isBoolean: Check<boolean> = (v): v is boolean => typeof v === 'boolean'
+
+export const isString: Check<string> = (v): v is string => typeof v === 'string'
+
+export function oneOf<T extends string | number>(options: readonly T[]): Check<T> {
+  return (v): v is T => (options as readonly unknown[]).includes(v)
+}
+
+export function intIn(min: number, max: number): Check<number> {
+  return (v): v is number => Number.isInteger(v) && (v as number) >= min && (v as number) <= max
+}
+
+export function numberIn(min: number, max: number): Check<number> {
+  return (v): v is number => typeof v === 'number' && Number.isFinite(v) && v >= min && v <= max
+}
+
+export function nullable<T>(check: Check<T>): Check<T | null> {
+  return (v): v is T | null => v === null || check(v)
+}
+
+export function arrayOf<T>(check: Check<T>, maxLength = Infinity): Check<T[]> {
+  return (v): v is T[] => Array.isArray(v) && v.length <= maxLength && v.every(check)
+}
+
+export function recordOf<T>(check: Check<T>): Check<Record<string, T>> {
+  return (v): v is Record<string, T> => isPlainObject(v) && Object.values(v).every(check)
+}
+
+// An object with at least these fields; extra fields are allowed
+export function shape<T extends object>(fields: { [K in keyof T]: Check<T[K]> }): Check<T> {
+  return (v): v is T => isPlainObject(v) && Object.entries(fields).every(([k, check]) => (check as Check<unknown>)(v[k]))
+}
+
+// Both checks must pass, e.g. a shape plus a relation between its fields
+export function refine<T>(check: Check<T>, test: (value: T) => boolean): Check<T> {
+  return (v): v is T => check(v) && test(v)
+}
+
+export function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v)
+}